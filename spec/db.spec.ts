@@ -1,3 +1,4 @@
+import fs from 'fs';
 import os from 'os';
 import { execSync } from 'child_process';
 import path from 'path';
@@ -10,6 +11,8 @@ import * as db from '../src';
 import { clearSelectLimit, setSelectLimit } from '../src/database';
 import { versionCompare } from '../src/utils';
 import type { Database } from '../src/database';
+import type { QueryContext } from '../src/middleware';
+import type { Session } from '../src/session';
 import type { Server, ServerConfig } from '../src/server';
 
 chai.use(chaiAsPromised);
@@ -436,6 +439,37 @@ describe('db', () => {
               expect(column('createdat')).to.have.property('dataType').to.eql('datetime');
             }
           });
+
+          it('should describe the columns of users table', async () => {
+            const columns = await dbConn.listTableColumns('users');
+            const column = (name: string) => columns.find((col) => col.columnName === name);
+
+            if (dbAdapter === 'cassandra') {
+              expect(column('id')).to.include({ kind: 'partition_key', nullable: false });
+              expect(column('username')).to.include({ kind: 'regular', nullable: true });
+              return;
+            }
+
+            expect(columns.map((col) => col.ordinalPosition)).to.eql([1, 2, 3, 4, 5, 6]);
+            expect(column('id')).to.include({ nullable: false, isAutoIncrement: true });
+            expect(column('role_id')).to.include({ nullable: true, isAutoIncrement: false });
+            expect(column('createdat')).to.include({ defaultValue: null, isGenerated: false });
+
+            if (postgresAdapters.includes(dbAdapter)) {
+              expect(column('username')).to.include({ fullDataType: 'text', nullable: false });
+              expect(column('role_id')).to.include({ fullDataType: 'integer', precision: 32 });
+            } else if (dbAdapter === 'sqlite') {
+              expect(column('username')).to.include({ fullDataType: 'VARCHAR(45)', length: 45 });
+              expect(column('email')).to.include({ length: 150, precision: null });
+            } else if (mysqlAdapters.includes(dbAdapter)) {
+              expect(column('username')).to.include({ fullDataType: 'varchar(45)', length: 45 });
+              expect(column('role_id')).to.include({ length: null, scale: 0 });
+            } else {
+              expect(column('id')).to.include({ isIdentity: true });
+              expect(column('username')).to.include({ fullDataType: 'varchar(45)', length: 45 });
+              expect(column('email')).to.have.property('collation').that.is.a('string');
+            }
+          });
         });
 
         describe('.listTableTriggers', () => {
@@ -450,6 +484,27 @@ describe('db', () => {
           });
         });
 
+        describe('.describeTableTriggers', () => {
+          it('should describe the triggers of users table', async () => {
+            const triggers = await dbConn.describeTableTriggers('users', dbSchema);
+            if (dbAdapter === 'cassandra' || dbAdapter === 'redshift') {
+              expect(triggers).to.have.length(0);
+              return;
+            }
+
+            expect(triggers).to.eql([
+              {
+                name: 'dummy_trigger',
+                timing: 'AFTER',
+                events: ['INSERT'],
+                level: dbAdapter === 'sqlserver' ? 'STATEMENT' : 'ROW',
+                enabled: true,
+                function: postgresAdapters.includes(dbAdapter) ? 'test_trigger_func' : null,
+              },
+            ]);
+          });
+        });
+
         describe('.listTableIndexes', () => {
           it('should list all indexes', async () => {
             const indexes = await dbConn.listTableIndexes('users', dbSchema);
@@ -473,6 +528,58 @@ describe('db', () => {
           });
         });
 
+        describe('.describeTableIndexes', () => {
+          it('should describe the indexes of users table', async () => {
+            const indexes = await dbConn.describeTableIndexes('users', dbSchema);
+            if (dbAdapter === 'cassandra' || dbAdapter === 'redshift') {
+              expect(indexes).to.have.length(0);
+              return;
+            }
+
+            const idColumn = { name: 'id', order: 'ASC' };
+            if (dbAdapter === 'sqlite') {
+              expect(indexes).to.eql([
+                {
+                  name: 'users_id_index',
+                  columns: [idColumn],
+                  unique: false,
+                  primary: false,
+                  method: 'btree',
+                  predicate: null,
+                  includedColumns: [],
+                },
+              ]);
+            } else if (dbAdapter === 'postgresql') {
+              expect(indexes).to.eql([
+                {
+                  name: 'users_pkey',
+                  columns: [idColumn],
+                  unique: true,
+                  primary: true,
+                  method: 'btree',
+                  predicate: null,
+                  includedColumns: [],
+                },
+              ]);
+            } else if (mysqlAdapters.includes(dbAdapter)) {
+              expect(indexes).to.have.length(2);
+              const primary = indexes.find((index) => index.name === 'PRIMARY');
+              expect(primary).to.include({ unique: true, primary: true, method: 'btree' });
+              expect(primary?.columns).to.eql([idColumn]);
+              const roleIndex = indexes.find((index) => index.name === 'role_id');
+              expect(roleIndex).to.include({ unique: false, primary: false });
+              expect(roleIndex?.columns).to.eql([{ name: 'role_id', order: 'ASC' }]);
+            } else if (dbAdapter === 'sqlserver') {
+              expect(indexes).to.have.length(1);
+              expect(indexes[0].name).to.match(/^PK__users__/i);
+              expect(indexes[0]).to.include({ unique: true, primary: true, predicate: null });
+              expect(indexes[0].columns).to.eql([idColumn]);
+            } else {
+              throw new Error('Invalid db adapter');
+            }
+          });
+        });
+
         describe('.listSchemas', () => {
           it('should list all schema', async () => {
             const schemas = await dbConn.listSchemas({
@@ -492,7 +599,7 @@ describe('db', () => {
         describe('.getTableReferences', () => {
           it('should list all tables that selected table has references to', async () => {
             const references = await dbConn.getTableReferences('users');
-            if (dbAdapter === 'cassandra' || dbAdapter === 'sqlite') {
+            if (dbAdapter === 'cassandra') {
               expect(references).to.have.length(0);
             } else {
               expect(references).to.have.length(1);
@@ -506,8 +613,6 @@ describe('db', () => {
             const tableKeys = await dbConn.getTableKeys('users');
             if (dbAdapter === 'cassandra') {
               expect(tableKeys).to.have.length(1);
-            } else if (dbAdapter === 'sqlite') {
-              expect(tableKeys).to.have.length(0);
             } else {
               expect(tableKeys).to.have.length(2);
             }
@@ -525,6 +630,129 @@ describe('db', () => {
           });
         });
 
+        describe('.listForeignKeys', () => {
+          it('should list the foreign keys of users table', async () => {
+            const foreignKeys = await dbConn.listForeignKeys('users', dbSchema);
+            if (dbAdapter === 'cassandra') {
+              expect(foreignKeys).to.have.length(0);
+              return;
+            }
+
+            expect(foreignKeys).to.have.length(1);
+            const [foreignKey] = foreignKeys;
+            expect(foreignKey).to.include({ referencedTable: 'roles' });
+            expect(foreignKey.columns).to.eql(['role_id']);
+            expect(foreignKey.referencedColumns).to.eql(['id']);
+
+            if (dbAdapter === 'sqlite') {
+              expect(foreignKey).to.include({
+                name: null,
+                referencedSchema: null,
+                onDelete: 'NO ACTION',
+                onUpdate: 'NO ACTION',
+                deferrable: null,
+                initiallyDeferred: null,
+              });
+            } else if (postgresAdapters.includes(dbAdapter)) {
+              expect(foreignKey).to.include({
+                name: 'users_role_id_fkey',
+                referencedSchema: dbSchema,
+                deferrable: false,
+                initiallyDeferred: false,
+              });
+            } else if (mysqlAdapters.includes(dbAdapter)) {
+              expect(foreignKey).to.include({
+                name: 'users_ibfk_1',
+                referencedSchema: serverInfo.database,
+                onDelete: 'CASCADE',
+                deferrable: false,
+              });
+            } else if (dbAdapter === 'sqlserver') {
+              expect(foreignKey).to.include({
+                name: 'fk_user_role',
+                referencedSchema: 'dbo',
+                onDelete: 'NO ACTION',
+                onUpdate: 'NO ACTION',
+                deferrable: false,
+              });
+            } else {
+              throw new Error('Invalid db adapter');
+            }
+
+            if (dbAdapter === 'postgresql') {
+              expect(foreignKey).to.include({ onDelete: 'CASCADE', onUpdate: 'NO ACTION' });
+            }
+          });
+        });
+
+        describe('.listTableConstraints', () => {
+          it('should list the constraints of users table', async () => {
+            const constraints = await dbConn.listTableConstraints('users', dbSchema);
+            if (dbAdapter === 'cassandra') {
+              expect(constraints).to.have.length(0);
+              return;
+            }
+
+            expect(constraints).to.have.length(2);
+            const primaryKey = constraints.find((constraint) => constraint.type === 'PRIMARY KEY');
+            expect(primaryKey).to.include({ expression: null });
+            expect(primaryKey?.columns).to.eql(['id']);
+            const foreignKey = constraints.find((constraint) => constraint.type === 'FOREIGN KEY');
+            expect(foreignKey).to.include({ expression: null });
+            expect(foreignKey?.columns).to.eql(['role_id']);
+          });
+
+          if (dbAdapter === 'sqlite') {
+            it('should list the unique and check constraints', async () => {
+              await dbConn.executeQuery(`
+                CREATE TABLE constrained_roles (
+                  name VARCHAR(100) UNIQUE,
+                  level INT CHECK (level > 0),
+                  CONSTRAINT "valid (name)" CHECK (name <> ')' AND length(name) < 100)
+                )
+              `);
+
+              try {
+                const constraints = await dbConn.listTableConstraints('constrained_roles');
+                expect(constraints).to.eql([
+                  { name: null, type: 'UNIQUE', columns: ['name'], expression: null },
+                  { name: null, type: 'CHECK', columns: [], expression: 'level > 0' },
+                  {
+                    name: 'valid (name)',
+                    type: 'CHECK',
+                    columns: [],
+                    expression: "name <> ')' AND length(name) < 100",
+                  },
+                ]);
+              } finally {
+                await dbConn.executeQuery('DROP TABLE constrained_roles');
+              }
+            });
+          }
+        });
+
+        describe('.getTriggerCreateScript', () => {
+          it('should return the trigger create script', async () => {
+            const [createScript] = await dbConn.getTriggerCreateScript('dummy_trigger', dbSchema);
+            if (dbAdapter === 'cassandra' || dbAdapter === 'redshift') {
+              expect(createScript).to.be.undefined;
+            } else if (dbAdapter === 'sqlite') {
+              expect(createScript).to.eql(
+                'CREATE TRIGGER dummy_trigger AFTER INSERT ON users\n' +
+                  'BEGIN\n' +
+                  '  DELETE FROM users where id = -1;\n' +
+                  'END;',
+              );
+            } else if (postgresAdapters.includes(dbAdapter)) {
+              expect(createScript).to.match(
+                /^CREATE TRIGGER dummy_trigger AFTER INSERT ON (public\.)?users FOR EACH ROW EXECUTE (FUNCTION|PROCEDURE) test_trigger_func\(\);$/,
+              );
+            } else {
+              expect(createScript).to.match(/^CREATE\b[\s\S]*TRIGGER [\s\S]*dummy_trigger/i);
+            }
+          });
+        });
+
         describe('.getTableCreateScript', () => {
           it('should return table create script', async () => {
             const [createScript] = await dbConn.getTableCreateScript('users');
@@ -950,6 +1178,26 @@ describe('db', () => {
           });
         });
 
+        if (dbAdapter === 'cassandra') {
+          describe('.query', () => {
+            it('should discard the results of a canceled query', async () => {
+              const query = dbConn.query('select * from users');
+              const executing = query.execute();
+              query.cancel();
+
+              await expect(executing).to.be.rejectedWith(db.CanceledByUserError);
+            });
+
+            it('should execute the query', async () => {
+              const results = await dbConn.query('select * from users where id = 0').execute();
+
+              expect(results).to.have.length(1);
+              expect(results[0]).to.have.property('command').to.eql('SELECT');
+              expect(results[0]).to.have.property('rows').to.eql([]);
+            });
+          });
+        }
+
         if (dbAdapter !== 'cassandra') {
           describe('.query', function () {
             // eslint-disable-line func-names
@@ -1023,191 +1271,1099 @@ describe('db', () => {
           });
         }
 
-        describe('.executeQuery', () => {
+        describe('.stream', () => {
           const includePk = dbAdapter === 'cassandra';
 
           beforeEach(async () => {
-            await dbConn.executeQuery(`
-              INSERT INTO roles (${includePk ? 'id,' : ''} name)
-              VALUES (${includePk ? '1,' : ''} 'developer')
-            `);
-
-            await dbConn.executeQuery(`
-              INSERT INTO users (${
-                includePk ? 'id,' : ''
-              } username, email, password, role_id, createdat)
-              VALUES (${
-                includePk ? '1,' : ''
-              } 'maxcnunes', 'maxcnunes@gmail.com', '123456', 1,'2016-10-25')
-            `);
+            const roles = ['developer', 'designer', 'manager'];
+            for (let i = 0; i < roles.length; i++) {
+              await dbConn.executeQuery(`
+                INSERT INTO roles (${includePk ? 'id,' : ''} name)
+                VALUES (${includePk ? `${i + 1},` : ''} '${roles[i]}')
+              `);
+            }
           });
 
           afterEach(async () => {
             await dbConn.truncateAllTables();
           });
 
-          describe('SELECT', () => {
-            it('should execute an empty query', async () => {
-              try {
-                const results = await dbConn.executeQuery('');
-                expect(results).to.have.length(0);
-              } catch (err) {
-                if (dbAdapter === 'cassandra') {
-                  expect((err as { message: string }).message).to.eql(
-                    "line 0:-1 no viable alternative at input '<EOF>'",
-                  );
-                } else {
-                  throw err;
-                }
-              }
+          it('should yield the rows in batches', async () => {
+            const batches = [];
+            for await (const batch of dbConn.stream('select * from roles', { batchSize: 2 })) {
+              batches.push(batch);
+            }
+
+            const rows = batches.reduce<unknown[]>((all, batch) => all.concat(batch.rows), []);
+            expect(rows).to.have.length(3);
+            expect(rows.map((row) => (row as { name: string }).name)).to.include.members([
+              'developer',
+              'designer',
+              'manager',
+            ]);
+
+            batches.forEach((batch) => {
+              expect(batch.rows).to.have.length.at.most(2);
+              expect(batch).to.have.nested.property('fields[0].name');
             });
+          });
 
-            it('should execute an query with only comments', async () => {
-              try {
-                const results = await dbConn.executeQuery('-- my comment');
+          it('should yield a single batch for empty results', async () => {
+            const batches = [];
+            for await (const batch of dbConn.stream('select * from roles where id = 0')) {
+              batches.push(batch);
+            }
 
-                // MySQL treats commented query as a non select query
-                if (dbAdapter === 'mysql' || dbAdapter === 'mariadb') {
-                  expect(results).to.have.length(1);
-                } else {
-                  expect(results).to.have.length(0);
-                }
-              } catch (err) {
-                if (dbAdapter === 'cassandra') {
-                  if (versionCompare(dbConn.getVersion().version, '2') === 0) {
-                    expect((err as { message: string }).message).to.eql(
-                      "line 0:-1 no viable alternative at input '<EOF>'",
-                    );
-                  } else {
-                    expect((err as { message: string }).message).to.eql(
-                      "line 1:13 mismatched character '<EOF>' expecting set null",
-                    );
-                  }
-                } else {
-                  throw err;
-                }
-              }
+            expect(batches).to.have.length(1);
+            expect(batches[0].rows).to.eql([]);
+          });
+
+          it('should release the connection when the consumer stops reading', async () => {
+            for await (const batch of dbConn.stream('select * from roles', { batchSize: 1 })) {
+              expect(batch.rows).to.have.length(1);
+              break;
+            }
+
+            const results = await dbConn.executeQuery('select * from roles');
+            expect(results[0].rows).to.have.length(3);
+          });
+        });
+
+        if (dbAdapter !== 'cassandra') {
+          describe('.transaction', () => {
+            const countRoles = async () => {
+              const results = await dbConn.executeQuery('select * from roles');
+              return (results[0].rows as unknown[]).length;
+            };
+
+            afterEach(async () => {
+              await dbConn.truncateAllTables();
             });
 
-            it('should execute a single query with empty result', async () => {
-              const results = await dbConn.executeQuery('select * from users where id = 0');
+            it('should commit the transaction when the callback resolves', async () => {
+              const result = await dbConn.transaction(async (tx) => {
+                await tx.executeQuery("INSERT INTO roles (name) VALUES ('developer')");
+                const results = await tx.executeQuery('select * from roles');
+                return (results[0].rows as unknown[]).length;
+              });
 
-              expect(results).to.have.length(1);
-              const [result] = results;
+              expect(result).to.eql(1);
+              expect(await countRoles()).to.eql(1);
+            });
 
-              // MSSQL/SQLite does not return the fields when the result is empty.
-              // For those DBs that return the field names even when the result
-              // is empty we should ensure all fields are included.
-              if (dbAdapter === 'sqlserver' || dbAdapter === 'sqlite') {
-                expect(result).to.have.property('fields').to.eql([]);
-              } else {
-                const field = (name: string) => {
-                  return (<{ name: string }[]>result.fields).find((item) => item.name === name);
-                };
-
-                expect(field('id')).to.exist;
-                expect(field('username')).to.exist;
-                expect(field('email')).to.exist;
-                expect(field('password')).to.exist;
+            it('should rollback the transaction when the callback throws', async () => {
+              const error = new Error('callback failed');
+              let thrown;
+              try {
+                await dbConn.transaction(async (tx) => {
+                  await tx.executeQuery("INSERT INTO roles (name) VALUES ('developer')");
+                  throw error;
+                });
+              } catch (err) {
+                thrown = err;
               }
 
-              expect(result).to.have.property('command').to.eql('SELECT');
-              expect(result).to.have.property('rows').to.eql([]);
-              expect(result).to.have.deep.property('rowCount').to.eql(0);
+              expect(thrown).to.eql(error);
+              expect(await countRoles()).to.eql(0);
             });
 
-            it('should execute a single query', async () => {
-              const results = await dbConn.executeQuery('select * from users');
-
-              expect(results).to.have.length(1);
-              const [result] = results;
-              const field = (name: string) => {
-                return (<{ name: string }[]>result.fields).find((item) => item.name === name);
-              };
+            it('should bind query parameters', async () => {
+              await dbConn.transaction(async (tx) => {
+                await tx.executeQuery('INSERT INTO roles (name) VALUES (:name)', {
+                  name: 'developer',
+                });
+              });
 
-              expect(field('id')).to.exist;
-              expect(field('username')).to.exist;
-              expect(field('email')).to.exist;
-              expect(field('password')).to.exist;
-              expect(field('role_id')).to.exist;
-              expect(field('createdat')).to.exist;
+              expect(await countRoles()).to.eql(1);
+            });
 
-              expect(result).to.have.nested.property('rows[0].id').to.eql(1);
-              expect(result).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
-              expect(result).to.have.nested.property('rows[0].password').to.eql('123456');
-              expect(result).to.have.nested.property('rows[0].email').to.eql('maxcnunes@gmail.com');
-              expect(result).to.have.nested.property('rows[0].createdat');
+            it('should accept an isolation level', async () => {
+              await dbConn.transaction(
+                async (tx) => {
+                  await tx.executeQuery("INSERT INTO roles (name) VALUES ('developer')");
+                },
+                { isolationLevel: 'SERIALIZABLE' },
+              );
 
-              expect(result).to.have.property('command').to.eql('SELECT');
-              expect(result).to.have.deep.property('rowCount').to.eql(1);
+              expect(await countRoles()).to.eql(1);
             });
 
-            if (postgresAdapters.includes(dbAdapter) || mysqlAdapters.includes(dbAdapter)) {
-              it('should not cast DATE types to native JS Date objects', async () => {
-                const results = await dbConn.executeQuery('select createdat from users');
+            if (dbAdapter !== 'redshift') {
+              it('should rollback only the failed savepoint', async () => {
+                await dbConn.transaction(async (tx) => {
+                  await tx.executeQuery("INSERT INTO roles (name) VALUES ('developer')");
 
-                expect(results).to.have.length(1);
-                const [result] = results;
+                  await tx.savepoint(async () => {
+                    await tx.executeQuery("INSERT INTO roles (name) VALUES ('designer')");
+                  });
 
-                expect(result).to.have.nested.property('fields[0].name').to.eql('createdat');
-                expect(result)
-                  .to.have.nested.property('rows[0].createdat')
-                  .to.match(/^2016-10-25/);
+                  try {
+                    await tx.savepoint(async () => {
+                      await tx.executeQuery("INSERT INTO roles (name) VALUES ('manager')");
+                      throw new Error('savepoint failed');
+                    });
+                  } catch (err) {
+                    expect((err as Error).message).to.eql('savepoint failed');
+                  }
+                });
+
+                const results = await dbConn.executeQuery('select name from roles');
+                const rows = results[0].rows as { name: string }[];
+                expect(rows.map((row) => row.name)).to.have.members(['developer', 'designer']);
               });
             }
+          });
+        }
 
-            it('should execute multiple queries', async () => {
-              try {
-                const results = await dbConn.executeQuery(`
-                  select * from users;
-                  select * from roles;
-                `);
+        if (dbAdapter !== 'cassandra' && dbAdapter !== 'redshift') {
+          describe('.explain', () => {
+            const findRelation = (nodes: db.ExplainPlanNode[]): db.ExplainPlanNode | undefined =>
+              nodes.reduce<db.ExplainPlanNode | undefined>(
+                (found, node) =>
+                  found || (node.relation === 'roles' ? node : findRelation(node.children)),
+                undefined,
+              );
 
-                expect(results).to.have.length(2);
-                const [firstResult, secondResult] = results;
+            it('should return the plan tree of the query', async () => {
+              const plan = await dbConn.explain('select * from roles');
 
-                expect(firstResult).to.have.nested.property('fields[0].name').to.eql('id');
-                expect(firstResult).to.have.nested.property('fields[1].name').to.eql('username');
-                expect(firstResult).to.have.nested.property('fields[2].name').to.eql('email');
-                expect(firstResult).to.have.nested.property('fields[3].name').to.eql('password');
+              expect(plan).to.have.length.at.least(1);
+              expect(plan[0]).to.have.property('operation').that.is.a('string');
+              expect(findRelation(plan)).to.not.eql(undefined);
+            });
 
-                expect(firstResult).to.have.nested.property('rows[0].id').to.eql(1);
-                expect(firstResult).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
-                expect(firstResult).to.have.nested.property('rows[0].password').to.eql('123456');
-                expect(firstResult)
-                  .to.have.nested.property('rows[0].email')
-                  .to.eql('maxcnunes@gmail.com');
+            if (dbAdapter === 'sqlite') {
+              it('should not support analyzing the plan', async () => {
+                await expect(
+                  dbConn.explain('select * from roles', { analyze: true }),
+                ).to.be.rejectedWith('SQLite does not support analyzing the query plan.');
+              });
+            } else {
+              it('should include the actual rows when analyzing the plan', async () => {
+                const plan = await dbConn.explain('select * from roles', { analyze: true });
 
-                expect(firstResult).to.have.property('command').to.eql('SELECT');
-                expect(firstResult).to.have.deep.property('rowCount').to.eql(1);
+                const node = findRelation(plan);
+                expect(node).to.have.property('actualRows').that.is.a('number');
+              });
+            }
+          });
+        }
 
-                expect(secondResult).to.have.nested.property('fields[0].name').to.eql('id');
-                expect(secondResult).to.have.nested.property('fields[1].name').to.eql('name');
+        if (dbAdapter !== 'cassandra') {
+          describe('.runScript', () => {
+            afterEach(async () => {
+              await dbConn.truncateAllTables();
+            });
 
-                expect(secondResult).to.have.nested.property('rows[0].id').to.eql(1);
-                expect(secondResult).to.have.nested.property('rows[0].name').to.eql('developer');
+            // sql server scripts are only split in batches separated by GO
+            const separator = dbAdapter === 'sqlserver' ? '\nGO\n' : '\n';
+            const script = [
+              "insert into roles (name) values ('developer');",
+              "insert into missing_table (name) values ('designer');",
+              "insert into roles (name) values ('designer');",
+            ].join(separator);
+
+            it('should execute the statements until one fails', async () => {
+              const outcomes = await dbConn.runScript(script);
+
+              expect(outcomes).to.have.length(2);
+              expect(outcomes[0]).to.have.property('results').that.has.length(1);
+              expect(outcomes[1]).to.have.property('index').to.eql(1);
+              expect(outcomes[1]).to.have.property('text').that.contains('missing_table');
+              expect(outcomes[1]).to.have.property('error').that.is.instanceOf(Error);
+            });
 
-                expect(secondResult).to.have.property('command').to.eql('SELECT');
-                expect(secondResult).to.have.deep.property('rowCount').to.eql(1);
-              } catch (err) {
-                if (dbAdapter === 'cassandra') {
-                  if (versionCompare(dbConn.getVersion().version, '3.10') >= 0) {
-                    expect((err as { message: string }).message).to.match(
-                      /mismatched input 'select' expecting EOF/,
-                    );
-                  } else {
-                    expect((err as { message: string }).message).to.match(
-                      /missing EOF at 'select'/,
-                    );
-                  }
-                } else {
-                  throw err;
-                }
+            it('should execute the remaining statements when continuing on error', async () => {
+              const progress: number[] = [];
+              const outcomes = await dbConn.runScript(script, {
+                onError: 'continue',
+                onProgress: ({ index }) => progress.push(index),
+              });
+
+              if (dbAdapter === 'postgresql') {
+                it('should keep the dollar quoted bodies in their statement', async () => {
+                  const outcomes = await dbConn.runScript(`
+                  CREATE OR REPLACE FUNCTION script_total() RETURNS int AS $$
+                    SELECT 1; SELECT 2;
+                  $$ LANGUAGE SQL;
+                  SELECT 1;
+                  DROP FUNCTION script_total();
+                `);
+
+                  expect(outcomes).to.have.length(3);
+                  expect(outcomes.map((outcome) => !!outcome.error)).to.eql([false, false, false]);
+                });
               }
+
+              expect(outcomes.map((outcome) => !!outcome.error)).to.eql([false, true, false]);
+              expect(progress).to.eql([0, 1, 2]);
+
+              const [result] = await dbConn.executeQuery('select * from roles');
+              expect(result.rows).to.have.length(2);
             });
           });
+        }
 
-          describe('INSERT', () => {
+        if (dbAdapter !== 'cassandra') {
+          describe('.executeFile', () => {
+            // sql server scripts are only split in batches separated by GO
+            const separator = dbAdapter === 'sqlserver' ? '\nGO\n' : '\n';
+
+            let filename: string;
+            beforeEach(() => {
+              filename = path.join(os.tmpdir(), `sqlectron-${Date.now()}.sql`);
+            });
+
+            afterEach(async () => {
+              fs.unlinkSync(filename);
+              await dbConn.truncateAllTables();
+            });
+
+            it('should execute the statements of the file reporting the progress', async () => {
+              fs.writeFileSync(
+                filename,
+                [
+                  "insert into roles (name) values ('developer');",
+                  "insert into roles (name) values ('designer;'); -- the semicolon; is not split",
+                ].join(separator),
+              );
+
+              const progress: number[] = [];
+              const result = await dbConn.executeFile(filename, {
+                onProgress: ({ statementsExecuted, bytesRead, totalBytes }) => {
+                  progress.push(statementsExecuted);
+                  expect(bytesRead).to.eql(totalBytes);
+                },
+              });
+
+              expect(result).to.eql({ statementsExecuted: 2, errors: [] });
+              expect(progress).to.eql([1, 2]);
+
+              const [roles] = await dbConn.executeQuery('select name from roles order by name');
+              expect(roles.rows).to.eql([{ name: 'designer;' }, { name: 'developer' }]);
+            });
+
+            it('should roll back the whole file when a statement fails in a transaction', async () => {
+              fs.writeFileSync(
+                filename,
+                [
+                  "insert into roles (name) values ('developer');",
+                  "insert into missing_table (name) values ('designer');",
+                ].join(separator),
+              );
+
+              await expect(dbConn.executeFile(filename, { transaction: true })).to.be.rejected;
+
+              const [roles] = await dbConn.executeQuery('select * from roles');
+              expect(roles.rows).to.have.length(0);
+            });
+          });
+        }
+
+        describe('given the server is read-only', () => {
+          let readOnlyConn: Database;
+          beforeEach(() => {
+            const readOnlyServer = db.createServer({ ...serverInfo, readOnly: true });
+            readOnlyConn = readOnlyServer.createConnection(serverInfo.database);
+            return readOnlyConn.connect();
+          });
+
+          afterEach(() => {
+            readOnlyConn.disconnect();
+          });
+
+          it('should execute the statements reading data', async () => {
+            const [result] = await readOnlyConn.executeQuery('select * from roles');
+
+            expect(result).to.have.property('command').to.eql('SELECT');
+          });
+
+          it('should reject the statements writing data', async () => {
+            await expect(
+              readOnlyConn.executeQuery(`
+                select * from roles;
+                insert into roles (id, name) values (10, 'reader');
+              `),
+            )
+              .to.be.rejectedWith(db.ReadOnlyViolationError)
+              .and.eventually.have.property('statements')
+              .that.has.length(1);
+          });
+
+          it('should reject the queries writing data before executing them', async () => {
+            const query = readOnlyConn.query("update roles set name = 'reader'");
+
+            await expect(query.execute()).to.be.rejectedWith(db.ReadOnlyViolationError);
+          });
+
+          it('should reject bulk inserting rows', () => {
+            expect(() =>
+              readOnlyConn.bulkInsert('roles', ['id', 'name'], [[10, 'reader']]),
+            ).to.throw(db.ReadOnlyViolationError);
+          });
+
+          it('should reject truncating all tables', () => {
+            expect(() => readOnlyConn.truncateAllTables()).to.throw(db.ReadOnlyViolationError);
+          });
+        });
+
+        describe('given the server requires confirming dangerous statements', () => {
+          beforeEach(() => {
+            serverSession.config.dangerousStatements = 'confirm';
+          });
+
+          afterEach(async () => {
+            await dbConn.truncateAllTables();
+          });
+
+          it('should reject the dangerous statements not confirmed', async () => {
+            await expect(dbConn.executeQuery('delete from roles'))
+              .to.be.rejectedWith(db.DangerousStatementError)
+              .and.eventually.have.property('statements')
+              .that.eql(['delete from roles']);
+          });
+
+          // cassandra does not support deleting without a WHERE clause
+          if (dbAdapter !== 'cassandra') {
+            it('should execute the dangerous statements confirmed', async () => {
+              const results = await dbConn.executeQuery('delete from roles', undefined, {
+                confirmDangerous: true,
+              });
+
+              expect(results).to.have.length(1);
+            });
+          }
+
+          it('should reject analyzing the plan of the dangerous statements not confirmed', async () => {
+            await expect(dbConn.explain('delete from roles', { analyze: true })).to.be.rejectedWith(
+              db.DangerousStatementError,
+            );
+          });
+
+          it('should execute the statements with a WHERE clause', async () => {
+            const results = await dbConn.executeQuery('delete from roles where id = 10');
+
+            expect(results).to.have.length(1);
+          });
+        });
+
+        // cassandra has no query running long enough to be timed out or aborted reliably
+        if (dbAdapter !== 'cassandra') {
+          const slowQueries: { [adapter: string]: string } = {
+            postgresql: 'SELECT pg_sleep(10)',
+            redshift: 'SELECT pg_sleep(10)',
+            mysql: "SELECT BENCHMARK(1000000000, MD5('sqlectron'))",
+            mariadb: "SELECT BENCHMARK(1000000000, MD5('sqlectron'))",
+            sqlserver: "WAITFOR DELAY '00:00:10'",
+            sqlite:
+              'WITH RECURSIVE counter(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM counter) SELECT count(*) FROM counter',
+          };
+          const slowQuery = slowQueries[dbAdapter];
+
+          describe('given the server has a query timeout', () => {
+            beforeEach(() => {
+              serverSession.config.queryTimeout = 200;
+            });
+
+            it('should abort the queries exceeding the timeout', async () => {
+              await expect(dbConn.executeQuery(slowQuery))
+                .to.be.rejectedWith(db.QueryTimeoutError)
+                .and.eventually.have.property('timeout')
+                .that.eql(200);
+            });
+
+            it('should execute the queries within the timeout', async () => {
+              const [result] = await dbConn.query('select * from roles').execute();
+
+              expect(result).to.have.property('command').to.eql('SELECT');
+            });
+
+            it('should let the query override the timeout', async () => {
+              await expect(
+                dbConn.executeQuery(slowQuery, undefined, { timeout: 100 }),
+              ).to.be.rejectedWith(db.QueryTimeoutError, '100ms');
+            });
+
+            if (mysqlAdapters.includes(dbAdapter)) {
+              it('should abort the statements other than SELECT exceeding the timeout', async () => {
+                await expect(
+                  dbConn.executeQuery("DO BENCHMARK(1000000000, MD5('sqlectron'))"),
+                ).to.be.rejectedWith(db.QueryTimeoutError);
+              });
+
+              it('should keep the statement timeout set on the session', async () => {
+                const variable =
+                  dbAdapter === 'mariadb' ? 'max_statement_time' : 'max_execution_time';
+                const session = await dbConn.openSession();
+                try {
+                  await session.executeQuery(`SET SESSION ${variable} = 5000`);
+                  await session.executeQuery('SELECT 1');
+                  const [result] = await session.executeQuery(
+                    `SELECT @@SESSION.${variable} AS value`,
+                  );
+
+                  expect(result)
+                    .to.have.nested.property('rows[0].value')
+                    .that.satisfies((value: unknown) => Number(value) === 5000);
+                } finally {
+                  await session.close();
+                }
+              });
+            }
+
+            if (dbAdapter === 'postgresql') {
+              it('should keep the statement timeout set on the session', async () => {
+                const session = await dbConn.openSession();
+                try {
+                  await session.executeQuery("SET statement_timeout = '5s'");
+                  await session.executeQuery('SELECT 1');
+                  const [result] = await session.executeQuery('SHOW statement_timeout');
+
+                  expect(result.rows).to.eql([{ statement_timeout: '5s' }]);
+                } finally {
+                  await session.close();
+                }
+              });
+            }
+          });
+
+          describe('given an abort signal', () => {
+            afterEach(async () => {
+              await dbConn.truncateAllTables();
+            });
+
+            it('should abort the running query', async () => {
+              const controller = new AbortController();
+              setTimeout(() => controller.abort(), 200);
+
+              await expect(
+                dbConn.executeQuery(slowQuery, undefined, { signal: controller.signal }),
+              ).to.be.rejectedWith(db.CanceledByUserError);
+
+              const [result] = await dbConn.executeQuery('select 1 as total');
+              expect(result.rows).to.have.length(1);
+            });
+
+            it('should abort the running query object', async () => {
+              const controller = new AbortController();
+              setTimeout(() => controller.abort(), 200);
+
+              await expect(
+                dbConn.query(slowQuery, undefined, { signal: controller.signal }).execute(),
+              ).to.be.rejectedWith(db.CanceledByUserError);
+            });
+
+            it('should not execute the metadata queries once aborted', async () => {
+              const controller = new AbortController();
+              controller.abort();
+
+              await expect(
+                dbConn.listTables(undefined, { signal: controller.signal }),
+              ).to.be.rejectedWith(db.CanceledByUserError);
+            });
+
+            it('should roll back the transaction aborted', async () => {
+              const controller = new AbortController();
+
+              await expect(
+                dbConn.transaction(
+                  async (tx) => {
+                    await tx.executeQuery("insert into roles (name) values ('aborted')");
+                    setTimeout(() => controller.abort(), 200);
+                    await tx.executeQuery(slowQuery);
+                  },
+                  { signal: controller.signal },
+                ),
+              ).to.be.rejectedWith(db.CanceledByUserError);
+
+              const [result] = await dbConn.executeQuery('select * from roles');
+              expect(result.rows).to.have.length(0);
+            });
+          });
+        }
+
+        describe('server .use', () => {
+          it('should call the hooks around the user queries', async () => {
+            const calls: { context: QueryContext; results: unknown; duration: number }[] = [];
+            serverSession.use(undefined, (context, results, duration) => {
+              // adapters may run internal queries to describe the results
+              if (!context.internal) {
+                calls.push({ context, results, duration });
+              }
+            });
+
+            const results = await dbConn.executeQuery('select * from roles');
+
+            expect(calls).to.have.length(1);
+            expect(calls[0].context).to.include({
+              query: 'select * from roles',
+              adapter: dbAdapter,
+              database: serverInfo.database,
+              internal: false,
+            });
+            expect(calls[0].results).to.eql(results);
+            expect(calls[0].duration).to.be.a('number');
+          });
+
+          it('should run the analyzed plans through the hooks', async () => {
+            serverSession.use(() => {
+              throw new Error('Blocked by the audit policy.');
+            });
+
+            await expect(
+              dbConn.explain('select * from roles', { analyze: true }),
+            ).to.be.rejectedWith('Blocked by the audit policy.');
+          });
+
+          it('should execute the query rewritten by the hooks', async () => {
+            serverSession.use(({ query }) => ({ query: query.replace('roles', 'users') }));
+
+            const [result] = await dbConn.executeQuery('select * from roles');
+
+            expect(result.fields.map((field) => field.name)).to.include('username');
+          });
+
+          it('should reject the query when a hook throws', async () => {
+            serverSession.use(() => {
+              throw new Error('Blocked by the audit policy.');
+            });
+
+            await expect(dbConn.executeQuery('select * from roles')).to.be.rejectedWith(
+              'Blocked by the audit policy.',
+            );
+          });
+
+          it('should call the error hooks when the query fails', async () => {
+            const errors: unknown[] = [];
+            serverSession.use(undefined, undefined, (context, error) => {
+              errors.push(error);
+            });
+
+            await expect(dbConn.executeQuery('select * from missing_table')).to.be.rejected;
+            expect(errors).to.have.length(1);
+          });
+
+          it('should flag the metadata queries as internal', async () => {
+            const contexts: QueryContext[] = [];
+            serverSession.use((context) => {
+              contexts.push(context);
+            });
+
+            await dbConn.listTables();
+
+            expect(contexts).to.have.length.at.least(1);
+            expect(contexts.every((context) => context.internal)).to.eql(true);
+          });
+        });
+
+        if (dbAdapter !== 'cassandra') {
+          describe('.openSession', () => {
+            let session: Session;
+
+            beforeEach(async () => {
+              session = await dbConn.openSession();
+            });
+
+            afterEach(async () => {
+              await session.close();
+            });
+
+            it('should keep the session state between queries', async () => {
+              const table = dbAdapter === 'sqlserver' ? '#session_roles' : 'session_roles';
+              const create =
+                dbAdapter === 'sqlserver'
+                  ? `CREATE TABLE ${table} (name varchar(50))`
+                  : `CREATE TEMPORARY TABLE ${table} (name varchar(50))`;
+
+              await session.executeQuery(create);
+              await session.executeQuery(`INSERT INTO ${table} (name) VALUES ('developer')`);
+              const results = await session.executeQuery(`SELECT name FROM ${table}`);
+
+              expect(results[0].rows).to.eql([{ name: 'developer' }]);
+            });
+
+            if (dbAdapter === 'sqlserver') {
+              it('should keep the session connection once idle', async function () {
+                // idles past the 30 seconds after which a pool evicts its idle connections
+                this.timeout(60000);
+                await session.executeQuery('CREATE TABLE #idle_roles (name varchar(50))');
+                await new Promise((resolve) => setTimeout(resolve, 32000));
+                const results = await session.executeQuery('SELECT name FROM #idle_roles');
+
+                expect(results[0].rows).to.eql([]);
+              });
+            }
+
+            it('should track whether a transaction is open', async () => {
+              const begin = mysqlAdapters.includes(dbAdapter)
+                ? 'START TRANSACTION'
+                : 'BEGIN TRANSACTION';
+
+              expect(session.inTransaction).to.eql(false);
+              await session.executeQuery(begin);
+              expect(session.inTransaction).to.eql(true);
+              await session.executeQuery('ROLLBACK');
+              expect(session.inTransaction).to.eql(false);
+            });
+
+            it('should run transactions on the session connection', async () => {
+              await session.transaction(async (tx) => {
+                expect(session.inTransaction).to.eql(true);
+                await tx.executeQuery('SELECT 1');
+              });
+
+              expect(session.inTransaction).to.eql(false);
+            });
+
+            it('should not be usable once closed', async () => {
+              await session.close();
+
+              expect(dbConn.sessions).to.not.include(session);
+              expect(() => session.query('SELECT 1')).to.throw('already been closed');
+            });
+          });
+        }
+
+        describe('.bulkInsert', () => {
+          const includePk = dbAdapter === 'cassandra';
+          const columns = [...(includePk ? ['id'] : []), 'username', 'email', 'password'];
+
+          afterEach(async () => {
+            await dbConn.truncateAllTables();
+          });
+
+          it('should insert the rows', async () => {
+            const rows = [1, 2, 3].map((id) => [
+              ...(includePk ? [id] : []),
+              `user${id}`,
+              `user${id}@sqlectron.com`,
+              '123456',
+            ]);
+
+            const result = await dbConn.bulkInsert('users', columns, rows);
+            expect(result).to.eql({ rowsInserted: 3 });
+
+            const [{ rows: inserted }] = await dbConn.executeQuery('select username from users');
+            expect((inserted as { username: string }[]).map((row) => row.username).sort()).to.eql([
+              'user1',
+              'user2',
+              'user3',
+            ]);
+          });
+
+          it('should insert the values needing to be escaped', async () => {
+            const username = 'o\'neil "the, \n user"';
+            await dbConn.bulkInsert('users', columns, [
+              [...(includePk ? [1] : []), username, null, '123456'],
+            ]);
+
+            const [{ rows: inserted }] = await dbConn.executeQuery(
+              'select username, email from users',
+            );
+            expect(inserted).to.have.nested.property('[0].username').to.eql(username);
+            expect(inserted).to.have.nested.property('[0].email').to.eql(null);
+          });
+
+          if (dbAdapter === 'postgresql') {
+            it('should insert the array values', async () => {
+              await dbConn.executeQuery(
+                'CREATE TABLE bulk_arrays (tags text[], scores int[], matrix int[][])',
+              );
+              try {
+                await dbConn.bulkInsert(
+                  'bulk_arrays',
+                  ['tags', 'scores', 'matrix'],
+                  [
+                    [
+                      ['a', 'b "c", \\d', null],
+                      [1, 2],
+                      [
+                        [1, 2],
+                        [3, 4],
+                      ],
+                    ],
+                  ],
+                );
+
+                const [{ rows: inserted }] = await dbConn.executeQuery('select * from bulk_arrays');
+                expect(inserted).to.eql([
+                  {
+                    tags: ['a', 'b "c", \\d', null],
+                    scores: [1, 2],
+                    matrix: [
+                      [1, 2],
+                      [3, 4],
+                    ],
+                  },
+                ]);
+              } finally {
+                await dbConn.executeQuery('DROP TABLE bulk_arrays');
+              }
+            });
+          }
+
+          it('should not execute anything without rows', async () => {
+            const result = await dbConn.bulkInsert('users', columns, []);
+            expect(result).to.eql({ rowsInserted: 0 });
+          });
+        });
+
+        describe('.executeQuery', () => {
+          const includePk = dbAdapter === 'cassandra';
+
+          beforeEach(async () => {
+            await dbConn.executeQuery(`
+              INSERT INTO roles (${includePk ? 'id,' : ''} name)
+              VALUES (${includePk ? '1,' : ''} 'developer')
+            `);
+
+            await dbConn.executeQuery(`
+              INSERT INTO users (${
+                includePk ? 'id,' : ''
+              } username, email, password, role_id, createdat)
+              VALUES (${
+                includePk ? '1,' : ''
+              } 'maxcnunes', 'maxcnunes@gmail.com', '123456', 1,'2016-10-25')
+            `);
+          });
+
+          afterEach(async () => {
+            await dbConn.truncateAllTables();
+          });
+
+          describe('given parameters', () => {
+            const positionalPlaceholders = {
+              postgresql: '$1',
+              redshift: '$1',
+              mysql: '?',
+              mariadb: '?',
+              sqlserver: '@p1',
+              sqlite: '?',
+              cassandra: '?',
+            };
+
+            it('should bind positional parameters', async () => {
+              const placeholder = positionalPlaceholders[dbAdapter];
+              const results = await dbConn.executeQuery(
+                `select * from users where id = ${placeholder}`,
+                [1],
+              );
+
+              expect(results).to.have.length(1);
+              expect(results[0]).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
+            });
+
+            it('should bind positional parameters in a cancelable query', async () => {
+              const placeholder = positionalPlaceholders[dbAdapter];
+              const results = await dbConn
+                .query(`select * from users where id = ${placeholder}`, [0])
+                .execute();
+
+              expect(results).to.have.length(1);
+              expect(results[0]).to.have.property('rows').to.eql([]);
+            });
+
+            [':id', '@id', '$id'].forEach((placeholder) => {
+              it(`should bind named parameters using ${placeholder} placeholders`, async () => {
+                // Cassandra does not support OR conditions
+                const condition =
+                  dbAdapter === 'cassandra'
+                    ? `id = ${placeholder}`
+                    : `id = ${placeholder} or role_id = ${placeholder}`;
+                const results = await dbConn.executeQuery(
+                  `select * from users where ${condition}`,
+                  {
+                    id: 1,
+                  },
+                );
+
+                expect(results).to.have.length(1);
+                expect(results[0]).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
+              });
+            });
+          });
+
+          if (dbAdapter === 'cassandra') {
+            describe('given cassandra query options', () => {
+              beforeEach(async () => {
+                await dbConn.executeQuery(`
+                  INSERT INTO roles (id, name) VALUES (2, 'manager')
+                `);
+              });
+
+              it('should fetch a page at a time', async () => {
+                const [firstPage] = await dbConn.executeQuery('select * from roles', undefined, {
+                  fetchSize: 1,
+                });
+                expect(firstPage).to.have.property('rows').to.have.length(1);
+                expect(firstPage).to.have.property('pageState').that.is.a('string');
+
+                const [secondPage] = await dbConn.executeQuery('select * from roles', undefined, {
+                  fetchSize: 1,
+                  pageState: firstPage.pageState,
+                });
+                expect(secondPage).to.have.property('rows').to.have.length(1);
+                expect(secondPage)
+                  .to.have.nested.property('rows[0].id')
+                  .to.not.eql((firstPage.rows as { id: number }[])[0].id);
+              });
+
+              it('should execute with the given consistency', async () => {
+                const results = await dbConn.executeQuery('select * from roles', undefined, {
+                  consistency: 'one',
+                });
+                expect(results[0]).to.have.property('rows').to.have.length(2);
+              });
+
+              it('should return the trace events', async () => {
+                const [result] = await dbConn.executeQuery('select * from roles', undefined, {
+                  traceQuery: true,
+                });
+                expect(result).to.have.property('trace').to.not.be.empty;
+                expect(result).to.have.nested.property('trace[0].activity').that.is.a('string');
+              });
+            });
+          }
+
+          describe('SELECT', () => {
+            it('should execute an empty query', async () => {
+              const results = await dbConn.executeQuery('');
+              expect(results).to.have.length(0);
+            });
+
+            it('should execute an query with only comments', async () => {
+              const results = await dbConn.executeQuery('-- my comment');
+
+              // MySQL treats commented query as a non select query
+              if (dbAdapter === 'mysql' || dbAdapter === 'mariadb') {
+                expect(results).to.have.length(1);
+              } else {
+                expect(results).to.have.length(0);
+              }
+            });
+
+            it('should execute a single query with empty result', async () => {
+              const results = await dbConn.executeQuery('select * from users where id = 0');
+
+              expect(results).to.have.length(1);
+              const [result] = results;
+
+              const field = (name: string) => {
+                return result.fields.find((item) => item.name === name);
+              };
+
+              expect(field('id')).to.exist;
+              expect(field('username')).to.exist;
+              expect(field('email')).to.exist;
+              expect(field('password')).to.exist;
+
+              expect(result).to.have.property('command').to.eql('SELECT');
+              expect(result).to.have.property('rows').to.eql([]);
+              expect(result).to.have.deep.property('rowCount').to.eql(0);
+            });
+
+            it('should execute a single query', async () => {
+              const results = await dbConn.executeQuery('select * from users');
+
+              expect(results).to.have.length(1);
+              const [result] = results;
+              const field = (name: string) => {
+                return result.fields.find((item) => item.name === name);
+              };
+
+              expect(field('id')).to.exist;
+              expect(field('username')).to.exist;
+              expect(field('email')).to.exist;
+              expect(field('password')).to.exist;
+              expect(field('role_id')).to.exist;
+              expect(field('createdat')).to.exist;
+
+              expect(result).to.have.nested.property('rows[0].id').to.eql(1);
+              expect(result).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
+              expect(result).to.have.nested.property('rows[0].password').to.eql('123456');
+              expect(result).to.have.nested.property('rows[0].email').to.eql('maxcnunes@gmail.com');
+              expect(result).to.have.nested.property('rows[0].createdat');
+
+              expect(result).to.have.property('command').to.eql('SELECT');
+              expect(result).to.have.deep.property('rowCount').to.eql(1);
+            });
+
+            it('should describe the type of the fields', async () => {
+              const [result] = await dbConn.executeQuery(
+                'select id, username, createdat from users where id = 0',
+              );
+              const field = (name: string) => {
+                return result.fields.find((item) => item.name === name);
+              };
+
+              expect(field('id')).to.have.property('category').to.eql('number');
+              expect(field('id')).to.have.property('dataType').that.is.a('string').and.not.empty;
+              expect(field('username')).to.have.property('category').to.eql('string');
+              expect(field('createdat')).to.have.property('category').to.eql('date');
+
+              if (postgresAdapters.includes(dbAdapter) || mysqlAdapters.includes(dbAdapter)) {
+                expect(field('username')).to.include({ table: 'users', column: 'username' });
+                expect(field('id')).to.have.property('nullable').to.eql(false);
+              }
+            });
+
+            it('should normalize the values as configured for the server', async () => {
+              serverSession.config.normalize = { dates: 'date' };
+
+              const [result] = await dbConn.executeQuery('select createdat from users');
+
+              expect(result).to.have.nested.property('rows[0].createdat').that.is.instanceOf(Date);
+            });
+
+            it('should not return messages for queries without them', async () => {
+              const [result] = await dbConn.executeQuery('select * from users');
+
+              expect(result).to.have.property('messages').to.eql([]);
+            });
+
+            const messageQueries: { [adapter: string]: string } = {
+              postgresql: "DO $$ BEGIN RAISE NOTICE 'hello'; END $$",
+              mysql: "SELECT CAST('hello' AS SIGNED) AS value",
+              mariadb: "SELECT CAST('hello' AS SIGNED) AS value",
+              sqlserver: "PRINT 'hello'",
+            };
+
+            if (mysqlAdapters.includes(dbAdapter)) {
+              it('should execute scripts with DELIMITER directives', async () => {
+                const results = await dbConn.executeQuery(`
+                  DROP PROCEDURE IF EXISTS count_users;
+                  DELIMITER $$
+                  CREATE PROCEDURE count_users()
+                  BEGIN
+                    SELECT count(*) AS total FROM users;
+                  END$$
+                  DELIMITER ;
+                  CALL count_users();
+                `);
+
+                const totals = results.map((result) => (result.rows as { total?: number }[])[0]);
+                expect(totals).to.deep.include({ total: 1 });
+              });
+            }
+
+            if (dbAdapter === 'sqlserver') {
+              it('should execute scripts with GO separators', async () => {
+                const results = await dbConn.executeQuery(
+                  [
+                    'CREATE TABLE #items (id int)',
+                    'GO',
+                    'INSERT INTO #items VALUES (1)',
+                    'GO 3',
+                    'SELECT count(*) AS total FROM #items',
+                  ].join('\n'),
+                );
+
+                // the CREATE TABLE batch has no results, and the INSERT batch is executed 3 times
+                expect(results).to.have.length(4);
+                expect(results).to.have.nested.property('[3].rows[0].total').to.eql(3);
+              });
+            }
+
+            if (messageQueries[dbAdapter]) {
+              it('should return the messages sent by the server', async () => {
+                const results = await dbConn.executeQuery(messageQueries[dbAdapter]);
+
+                expect(results).to.have.length(1);
+                const [message] = results[0].messages;
+
+                expect(message).to.have.property('text').to.contain('hello');
+                expect(message).to.have.property('statementIndex').to.eql(0);
+                expect(message)
+                  .to.have.property('severity')
+                  .to.eql(
+                    dbAdapter === 'sqlserver'
+                      ? 'info'
+                      : mysqlAdapters.includes(dbAdapter)
+                      ? 'warning'
+                      : 'notice',
+                  );
+              });
+            }
+
+            if (dbAdapter === 'postgresql') {
+              it('should return the messages of the statement given a timeout', async () => {
+                const results = await dbConn.executeQuery(messageQueries[dbAdapter], undefined, {
+                  timeout: 5000,
+                });
+
+                expect(results[0].messages).to.have.length(1);
+                expect(results[0].messages[0]).to.have.property('statementIndex').to.eql(0);
+              });
+            }
+
+            if (postgresAdapters.includes(dbAdapter) || mysqlAdapters.includes(dbAdapter)) {
+              it('should not cast DATE types to native JS Date objects', async () => {
+                const results = await dbConn.executeQuery('select createdat from users');
+
+                expect(results).to.have.length(1);
+                const [result] = results;
+
+                expect(result).to.have.nested.property('fields[0].name').to.eql('createdat');
+                expect(result)
+                  .to.have.nested.property('rows[0].createdat')
+                  .to.match(/^2016-10-25/);
+              });
+            }
+
+            if (dbAdapter !== 'cassandra') {
+              it('should execute multiple queries', async () => {
+                const results = await dbConn.executeQuery(`
+                  select * from users;
+                  select * from roles;
+                `);
+
+                expect(results).to.have.length(2);
+                const [firstResult, secondResult] = results;
+
+                expect(firstResult).to.have.nested.property('fields[0].name').to.eql('id');
+                expect(firstResult).to.have.nested.property('fields[1].name').to.eql('username');
+                expect(firstResult).to.have.nested.property('fields[2].name').to.eql('email');
+                expect(firstResult).to.have.nested.property('fields[3].name').to.eql('password');
+
+                expect(firstResult).to.have.nested.property('rows[0].id').to.eql(1);
+                expect(firstResult).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
+                expect(firstResult).to.have.nested.property('rows[0].password').to.eql('123456');
+                expect(firstResult)
+                  .to.have.nested.property('rows[0].email')
+                  .to.eql('maxcnunes@gmail.com');
+
+                expect(firstResult).to.have.property('command').to.eql('SELECT');
+                expect(firstResult).to.have.deep.property('rowCount').to.eql(1);
+
+                expect(secondResult).to.have.nested.property('fields[0].name').to.eql('id');
+                expect(secondResult).to.have.nested.property('fields[1].name').to.eql('name');
+
+                expect(secondResult).to.have.nested.property('rows[0].id').to.eql(1);
+                expect(secondResult).to.have.nested.property('rows[0].name').to.eql('developer');
+
+                expect(secondResult).to.have.property('command').to.eql('SELECT');
+                expect(secondResult).to.have.deep.property('rowCount').to.eql(1);
+              });
+            } else {
+              it('should execute multiple queries one by one', async () => {
+                const results = await dbConn.executeQuery(`
+                  select id, username from users;
+                  select id, name from roles where id = 1;
+                `);
+
+                expect(results).to.have.length(2);
+                const [firstResult, secondResult] = results;
+
+                expect(firstResult).to.have.nested.property('rows[0].username').to.eql('maxcnunes');
+                expect(firstResult).to.have.deep.property('rowCount').to.eql(1);
+
+                expect(secondResult).to.have.nested.property('rows[0].name').to.eql('developer');
+                expect(secondResult).to.have.property('command').to.eql('SELECT');
+              });
+            }
+          });
+
+          describe('INSERT', () => {
             it('should execute a single query', async () => {
               const results = await dbConn.executeQuery(`
                 insert into users (${includePk ? 'id,' : ''} username, email, password)
@@ -1237,8 +2393,8 @@ describe('db', () => {
               }
             });
 
-            it('should execute multiple queries', async () => {
-              try {
+            if (dbAdapter !== 'cassandra') {
+              it('should execute multiple queries', async () => {
                 const results = await dbConn.executeQuery(`
                   insert into users (username, email, password)
                   values ('user', 'user@hotmail.com', '123456');
@@ -1273,22 +2429,8 @@ describe('db', () => {
                   expect(secondResult).to.have.property('rowCount').to.eql(undefined);
                   expect(secondResult).to.have.property('affectedRows').to.eql(1);
                 }
-              } catch (err) {
-                if (dbAdapter === 'cassandra') {
-                  if (versionCompare(dbConn.getVersion().version, '3.10') >= 0) {
-                    expect((err as { message: string }).message).to.match(
-                      /mismatched input 'insert' expecting EOF/,
-                    );
-                  } else {
-                    expect((err as { message: string }).message).to.match(
-                      /missing EOF at 'insert'/,
-                    );
-                  }
-                } else {
-                  throw err;
-                }
-              }
-            });
+              });
+            }
           });
 
           describe('DELETE', () => {
@@ -1320,8 +2462,8 @@ describe('db', () => {
               }
             });
 
-            it('should execute multiple queries', async () => {
-              try {
+            if (dbAdapter !== 'cassandra') {
+              it('should execute multiple queries', async () => {
                 const results = await dbConn.executeQuery(`
                   delete from users where username = 'maxcnunes';
                   delete from roles where name = 'developer';
@@ -1353,22 +2495,8 @@ describe('db', () => {
                   expect(secondResult).to.have.property('rowCount').to.eql(undefined);
                   expect(secondResult).to.have.property('affectedRows').to.eql(1);
                 }
-              } catch (err) {
-                if (dbAdapter === 'cassandra') {
-                  if (versionCompare(dbConn.getVersion().version, '3.10') >= 0) {
-                    expect((err as { message: string }).message).to.match(
-                      /mismatched input 'delete' expecting EOF/,
-                    );
-                  } else {
-                    expect((err as { message: string }).message).to.match(
-                      /missing EOF at 'delete'/,
-                    );
-                  }
-                } else {
-                  throw err;
-                }
-              }
-            });
+              });
+            }
           });
 
           describe('UPDATE', () => {
@@ -1400,8 +2528,8 @@ describe('db', () => {
               }
             });
 
-            it('should execute multiple queries', async () => {
-              try {
+            if (dbAdapter !== 'cassandra') {
+              it('should execute multiple queries', async () => {
                 const results = await dbConn.executeQuery(`
                   update users set username = 'max' where username = 'maxcnunes';
                   update roles set name = 'dev' where name = 'developer';
@@ -1433,22 +2561,8 @@ describe('db', () => {
                   expect(secondResult).to.have.property('rowCount').to.eql(undefined);
                   expect(secondResult).to.have.property('affectedRows').to.eql(1);
                 }
-              } catch (err) {
-                if (dbAdapter === 'cassandra') {
-                  if (versionCompare(dbConn.getVersion().version, '3.10') >= 0) {
-                    expect((err as { message: string }).message).to.match(
-                      /mismatched input 'update' expecting EOF/,
-                    );
-                  } else {
-                    expect((err as { message: string }).message).to.match(
-                      /missing EOF at 'update'/,
-                    );
-                  }
-                } else {
-                  throw err;
-                }
-              }
-            });
+              });
+            }
           });
 
           if (dbAdapter !== 'cassandra' && dbAdapter !== 'sqlite') {
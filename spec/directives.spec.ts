@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import {
+  hasBatchSeparator,
+  hasDelimiterDirective,
+  splitBatches,
+  splitDelimiterStatements,
+} from '../src/directives';
+
+describe('directives', () => {
+  describe('.splitDelimiterStatements', () => {
+    it('should split the statements with the delimiter set by the directives', () => {
+      const script = [
+        'DROP PROCEDURE IF EXISTS hello;',
+        'DELIMITER $$',
+        'CREATE PROCEDURE hello()',
+        'BEGIN',
+        "  SELECT 'hello';",
+        'END$$',
+        'DELIMITER ;',
+        'CALL hello();',
+      ].join('\n');
+
+      expect(hasDelimiterDirective(script)).to.eql(true);
+      expect(splitDelimiterStatements(script)).to.eql([
+        'DROP PROCEDURE IF EXISTS hello',
+        "CREATE PROCEDURE hello()\nBEGIN\n  SELECT 'hello';\nEND",
+        'CALL hello()',
+      ]);
+    });
+
+    it('should ignore the delimiters within strings and comments', () => {
+      const script = ['DELIMITER //', "SELECT '//', `a//b` -- //", '/* // */ FROM dual //'].join(
+        '\n',
+      );
+
+      expect(splitDelimiterStatements(script)).to.eql([
+        "SELECT '//', `a//b` -- //\n/* // */ FROM dual",
+      ]);
+    });
+
+    it('should not find directives in scripts without them', () => {
+      expect(hasDelimiterDirective('SELECT 1; SELECT 2;')).to.eql(false);
+    });
+  });
+
+  describe('.splitBatches', () => {
+    it('should split the script in the batches separated by GO', () => {
+      const script = [
+        'CREATE TABLE #items (id int)',
+        'GO',
+        'INSERT INTO #items VALUES (1)',
+        'go 3',
+        'CREATE PROCEDURE hello AS',
+        "  SELECT 'hello'",
+        'GO -- end of the procedure',
+      ].join('\r\n');
+
+      expect(hasBatchSeparator(script)).to.eql(true);
+      expect(splitBatches(script)).to.eql([
+        { text: 'CREATE TABLE #items (id int)', count: 1 },
+        { text: 'INSERT INTO #items VALUES (1)', count: 3 },
+        { text: "CREATE PROCEDURE hello AS\r\n  SELECT 'hello'", count: 1 },
+      ]);
+    });
+
+    it('should ignore the GO lines within strings and comments', () => {
+      const script = ["SELECT 'a", 'GO', "b'", '/* /* nested */', 'GO', '*/', 'GOTO done'].join(
+        '\n',
+      );
+
+      expect(splitBatches(script)).to.eql([{ text: script, count: 1 }]);
+    });
+
+    it('should not find separators in scripts without them', () => {
+      expect(hasBatchSeparator('SELECT 1\nGOTO done')).to.eql(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { runMiddleware } from '../src/middleware';
+
+import type { QueryContext } from '../src/middleware';
+
+chai.use(chaiAsPromised);
+
+describe('middleware', () => {
+  const context: QueryContext = {
+    query: 'select 1',
+    adapter: 'sqlite',
+    database: 'test',
+    internal: false,
+  };
+
+  describe('.runMiddleware', () => {
+    it('should run the query without middlewares', async () => {
+      const results = await runMiddleware([], context, ({ query }) => Promise.resolve(query));
+      expect(results).to.eql('select 1');
+    });
+
+    it('should pass the query rewritten by each middleware to the next one', async () => {
+      const results = await runMiddleware(
+        [
+          { beforeQuery: ({ query }) => ({ query: `${query}, 2` }) },
+          { beforeQuery: ({ query }) => Promise.resolve({ query: `${query}, 3`, params: [1] }) },
+        ],
+        context,
+        ({ query, params }) => Promise.resolve({ query, params }),
+      );
+
+      expect(results).to.eql({ query: 'select 1, 2, 3', params: [1] });
+    });
+
+    it('should not run the query when a middleware rejects it', async () => {
+      let executed = false;
+      const run = () => {
+        executed = true;
+        return Promise.resolve();
+      };
+
+      await expect(
+        runMiddleware([{ beforeQuery: () => Promise.reject(new Error('rejected')) }], context, run),
+      ).to.be.rejectedWith('rejected');
+      expect(executed).to.eql(false);
+    });
+
+    it('should pass the results and duration to the after hooks', async () => {
+      const calls: unknown[][] = [];
+      await runMiddleware([{ afterQuery: (...args) => void calls.push(args) }], context, () =>
+        Promise.resolve(['row']),
+      );
+
+      expect(calls).to.have.length(1);
+      expect(calls[0][0]).to.eql(context);
+      expect(calls[0][1]).to.eql(['row']);
+      expect(calls[0][2]).to.be.a('number');
+    });
+
+    it('should call the error hooks and rethrow the query error', async () => {
+      const errors: unknown[] = [];
+      const error = new Error('failed');
+
+      await expect(
+        runMiddleware([{ onError: (_, err) => void errors.push(err) }], context, () =>
+          Promise.reject(error),
+        ),
+      ).to.be.rejectedWith('failed');
+      expect(errors).to.eql([error]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import { normalizeRows, normalizeValue } from '../src/normalize';
+
+import type { ResultField } from '../src/adapters/abstract_adapter';
+
+describe('normalize', () => {
+  const field = (dataType: string, category: ResultField['category']): ResultField => ({
+    name: 'value',
+    dataType,
+    category,
+  });
+
+  describe('.normalizeValue', () => {
+    it('should convert dates to ISO strings', () => {
+      const value = new Date('2016-10-25T10:00:00Z');
+      expect(normalizeValue(value, field('datetime', 'date'), { dates: 'string' })).to.eql(
+        '2016-10-25T10:00:00.000Z',
+      );
+    });
+
+    it('should parse date strings into dates', () => {
+      const value = normalizeValue('2016-10-25', field('date', 'date'), { dates: 'date' });
+      expect(value).to.be.instanceOf(Date);
+    });
+
+    it('should convert the date strings of the drivers to ISO strings', () => {
+      const date = field('datetime', 'date');
+      expect(normalizeValue('2016-10-25 10:00:00', date, { dates: 'string' })).to.eql(
+        '2016-10-25T10:00:00.000Z',
+      );
+      expect(normalizeValue('2016-10-25', field('date', 'date'), { dates: 'string' })).to.eql(
+        '2016-10-25T00:00:00.000Z',
+      );
+      expect(normalizeValue('2016-10-25 12:00:00.5+02', date, { dates: 'string' })).to.eql(
+        '2016-10-25T10:00:00.500Z',
+      );
+    });
+
+    it('should parse the date strings without a time zone as UTC', () => {
+      const value = normalizeValue('2016-10-25 10:00:00', field('datetime', 'date'), {
+        dates: 'date',
+      });
+      expect(value).to.eql(new Date('2016-10-25T10:00:00.000Z'));
+    });
+
+    it('should keep the time strings untouched', () => {
+      expect(normalizeValue('10:00:00', field('time', 'date'), { dates: 'string' })).to.eql(
+        '10:00:00',
+      );
+    });
+
+    it('should keep invalid date strings untouched', () => {
+      expect(normalizeValue('infinity', field('date', 'date'), { dates: 'date' })).to.eql(
+        'infinity',
+      );
+    });
+
+    it('should convert 64-bit integers', () => {
+      const bigint = field('int8', 'number');
+      expect(normalizeValue('9007199254740993', bigint, { bigints: 'bigint' })).to.eql(
+        BigInt('9007199254740993'),
+      );
+      expect(normalizeValue(42, bigint, { bigints: 'string' })).to.eql('42');
+      expect(normalizeValue('42', bigint, { bigints: 'number' })).to.eql(42);
+    });
+
+    it('should not convert other integers', () => {
+      expect(normalizeValue(42, field('int4', 'number'), { bigints: 'string' })).to.eql(42);
+    });
+
+    it('should encode binary values', () => {
+      const value = Buffer.from('sqlectron');
+      expect(normalizeValue(value, field('bytea', 'binary'), { binary: 'hex' })).to.eql(
+        '73716c656374726f6e',
+      );
+      expect(normalizeValue(value, field('bytea', 'binary'), { binary: 'base64' })).to.eql(
+        'c3FsZWN0cm9u',
+      );
+    });
+
+    it('should convert JSON values', () => {
+      const json = field('jsonb', 'json');
+      expect(normalizeValue('{"a":1}', json, { json: 'parsed' })).to.eql({ a: 1 });
+      expect(normalizeValue({ a: 1 }, json, { json: 'text' })).to.eql('{"a":1}');
+      expect(normalizeValue('{invalid', json, { json: 'parsed' })).to.eql('{invalid');
+    });
+
+    it('should keep null values', () => {
+      expect(normalizeValue(null, field('date', 'date'), { dates: 'string' })).to.eql(null);
+    });
+  });
+
+  describe('.normalizeRows', () => {
+    it('should normalize the values of each row by their field', () => {
+      const fields: ResultField[] = [
+        { name: 'id', dataType: 'bigint', category: 'number' },
+        { name: 'name', dataType: 'varchar', category: 'string' },
+      ];
+
+      expect(normalizeRows([{ id: 1, name: 'dev' }], fields, { bigints: 'string' })).to.eql([
+        { id: '1', name: 'dev' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { extractParameters, translateParameters } from '../src/parameters';
+
+describe('parameters', () => {
+  describe('.extractParameters', () => {
+    const parameters: [string, string[]][] = [
+      ['SELECT * FROM users WHERE id = :id', ['id']],
+      ['SELECT * FROM users WHERE id = @id AND name = $name', ['id', 'name']],
+      ['SELECT * FROM users WHERE id = :id OR parent_id = :id', ['id']],
+      ['SELECT \':id\', "@name", `$other` FROM users', []],
+      ["SELECT 'it''s :quoted' WHERE id = :id", ['id']],
+      ['SELECT 1 -- :commented\nWHERE id = :id', ['id']],
+      ['SELECT /* :commented */ :id', ['id']],
+      ['SELECT $body$ :quoted $body$, $$ @quoted $$, :id', ['id']],
+      ['SELECT created_at::date, @@version, $1 FROM users', []],
+      ['SELECT email FROM users WHERE email = :email', ['email']],
+    ];
+    parameters.forEach(([query, expected]) => {
+      it(`.extractParameters(${JSON.stringify(query)})`, () => {
+        expect(extractParameters(query)).to.eql(expected);
+      });
+    });
+
+    it('should honor the backslash escapes of the mysql dialect', () => {
+      expect(extractParameters("SELECT 'it\\'s :name', :id", 'mysql')).to.eql(['id']);
+    });
+  });
+
+  describe('.translateParameters', () => {
+    const numbered = (index: number) => `$${index + 1}`;
+    const positional = () => '?';
+
+    it('should translate into numbered placeholders reusing repeated names', () => {
+      const result = translateParameters(
+        'SELECT * FROM users WHERE id = :id OR parent_id = :id AND name = @name',
+        { id: 1, name: 'maxcnunes' },
+        numbered,
+      );
+
+      expect(result).to.eql({
+        query: 'SELECT * FROM users WHERE id = $1 OR parent_id = $1 AND name = $2',
+        params: [1, 'maxcnunes'],
+      });
+    });
+
+    it('should translate into positional placeholders repeating the values', () => {
+      const result = translateParameters(
+        'SELECT * FROM users WHERE id = :id OR parent_id = :id AND name = $name',
+        { id: 1, name: 'maxcnunes' },
+        positional,
+      );
+
+      expect(result).to.eql({
+        query: 'SELECT * FROM users WHERE id = ? OR parent_id = ? AND name = ?',
+        params: [1, 1, 'maxcnunes'],
+      });
+    });
+
+    it('should accept values keyed with the placeholder prefix', () => {
+      const result = translateParameters('SELECT :id', { ':id': 1 }, positional);
+
+      expect(result).to.eql({ query: 'SELECT ?', params: [1] });
+    });
+
+    it('should skip the strings escaping their quotes with a backslash on mysql', () => {
+      const result = translateParameters(
+        "SELECT 'it\\'s :name', \"a \\\\\", :id",
+        { id: 1, name: 'x' },
+        positional,
+        'mysql',
+      );
+
+      expect(result).to.eql({ query: "SELECT 'it\\'s :name', \"a \\\\\", ?", params: [1] });
+    });
+
+    it('should keep placeholders without values untouched', () => {
+      const result = translateParameters(
+        "SET @total = 1; SELECT @total, ':id' WHERE id = :id",
+        { id: 1 },
+        numbered,
+      );
+
+      expect(result).to.eql({
+        query: "SET @total = 1; SELECT @total, ':id' WHERE id = $1",
+        params: [1],
+      });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { StatementSplitter } from '../src/splitter';
+
+import type { SplitterDialect } from '../src/splitter';
+
+/**
+ * Pushes the script one character at a time, so every literal is split across chunks.
+ */
+function splitByCharacter(script: string, dialect: SplitterDialect): string[] {
+  const splitter = new StatementSplitter(dialect);
+  const statements: string[] = [];
+  for (const char of script) {
+    statements.push(...splitter.push(char));
+  }
+  return [...statements, ...splitter.end()];
+}
+
+describe('splitter', () => {
+  describe('StatementSplitter', () => {
+    it('should return the statements as soon as they are complete', () => {
+      const splitter = new StatementSplitter();
+
+      expect(splitter.push('SELECT 1; SELECT')).to.eql(['SELECT 1']);
+      expect(splitter.push(' 2;\nSELECT 3')).to.eql(['SELECT 2']);
+      expect(splitter.end()).to.eql(['SELECT 3']);
+    });
+
+    it('should not split on the delimiters within strings and comments', () => {
+      const script = 'SELECT \'a;b\', "c;d" -- e;f\n/* g;h */ FROM t; SELECT 2;';
+
+      expect(splitByCharacter(script, 'generic')).to.eql([
+        'SELECT \'a;b\', "c;d" -- e;f\n/* g;h */ FROM t',
+        'SELECT 2',
+      ]);
+    });
+
+    it('should keep the dollar quoted bodies of PostgreSQL functions', () => {
+      const script = [
+        'CREATE FUNCTION one() RETURNS int AS $body$',
+        '  BEGIN RETURN 1; END;',
+        '$body$ LANGUAGE plpgsql;',
+        "SELECT E'it\\'s;', one();",
+      ].join('\n');
+
+      expect(splitByCharacter(script, 'psql')).to.eql([
+        'CREATE FUNCTION one() RETURNS int AS $body$\n  BEGIN RETURN 1; END;\n$body$ LANGUAGE plpgsql',
+        "SELECT E'it\\'s;', one()",
+      ]);
+    });
+
+    it('should keep the statements of SQLite triggers', () => {
+      const script = [
+        'CREATE TRIGGER log AFTER INSERT ON roles BEGIN',
+        '  INSERT INTO logs VALUES (new.id);',
+        'END;',
+        'INSERT INTO roles VALUES (1);',
+      ].join('\n');
+
+      expect(splitByCharacter(script, 'sqlite')).to.eql([
+        'CREATE TRIGGER log AFTER INSERT ON roles BEGIN\n  INSERT INTO logs VALUES (new.id);\nEND',
+        'INSERT INTO roles VALUES (1)',
+      ]);
+    });
+
+    it('should keep the CASE expressions of SQLite triggers', () => {
+      const script = [
+        'CREATE TRIGGER log AFTER INSERT ON roles BEGIN',
+        "  INSERT INTO logs VALUES (CASE WHEN new.id > 1 THEN 2 ELSE 3 END, 'end;');",
+        'END;',
+        'SELECT 1;',
+      ].join('\n');
+
+      expect(splitByCharacter(script, 'sqlite')).to.eql([
+        [
+          'CREATE TRIGGER log AFTER INSERT ON roles BEGIN',
+          "  INSERT INTO logs VALUES (CASE WHEN new.id > 1 THEN 2 ELSE 3 END, 'end;');",
+          'END',
+        ].join('\n'),
+        'SELECT 1',
+      ]);
+    });
+
+    it('should follow the MySQL DELIMITER directives', () => {
+      const script = [
+        'DELIMITER $$',
+        'CREATE PROCEDURE hello() BEGIN SELECT 1; END$$',
+        'DELIMITER ;',
+        'CALL hello();',
+      ].join('\n');
+
+      expect(splitByCharacter(script, 'mysql')).to.eql([
+        'CREATE PROCEDURE hello() BEGIN SELECT 1; END',
+        'CALL hello()',
+      ]);
+    });
+
+    it('should repeat the SQL Server batches executed several times', () => {
+      const script = [
+        'SELECT 1; SELECT 2',
+        'GO',
+        'INSERT INTO t VALUES (1)',
+        'GO 2',
+        'GOTO done',
+      ].join('\n');
+
+      expect(splitByCharacter(script, 'mssql')).to.eql([
+        'SELECT 1; SELECT 2',
+        'INSERT INTO t VALUES (1)',
+        'INSERT INTO t VALUES (1)',
+        'GOTO done',
+      ]);
+    });
+  });
+});
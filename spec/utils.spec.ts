@@ -1,5 +1,16 @@
 import { expect } from 'chai';
-import { appendSemiColon, versionCompare } from '../src/utils';
+import {
+  appendSemiColon,
+  createBatchQueue,
+  findDangerousStatements,
+  findWriteStatements,
+  getTypeCategory,
+  guessFieldsFromRows,
+  splitStatements,
+  versionCompare,
+} from '../src/utils';
+
+import type { ResultField } from '../src/adapters/abstract_adapter';
 
 describe('utils', () => {
   describe('.versionCompare', () => {
@@ -39,4 +50,219 @@ describe('utils', () => {
       });
     });
   });
+
+  describe('.createBatchQueue', () => {
+    const collect = async (queue: ReturnType<typeof createBatchQueue>) => {
+      const batches = [];
+      for await (const batch of queue.batches()) {
+        batches.push(batch);
+      }
+      return batches;
+    };
+
+    const idField: ResultField = { name: 'id', dataType: 'int', category: 'number' };
+
+    it('should group the rows in batches', async () => {
+      const queue = createBatchQueue({ batchSize: 2 });
+      queue.setFields([idField]);
+      [1, 2, 3].forEach((id) => queue.push({ id }));
+      queue.end();
+
+      expect(await collect(queue)).to.eql([
+        { fields: [idField], rows: [{ id: 1 }, { id: 2 }] },
+        { fields: [idField], rows: [{ id: 3 }] },
+      ]);
+    });
+
+    it('should yield a single empty batch when there are no rows', async () => {
+      const queue = createBatchQueue({ batchSize: 2 });
+      queue.setFields([idField]);
+      queue.end();
+
+      expect(await collect(queue)).to.eql([{ fields: [idField], rows: [] }]);
+    });
+
+    it('should pause the producer until the consumer catches up', async () => {
+      const calls: string[] = [];
+      const queue = createBatchQueue({
+        batchSize: 1,
+        highWaterMark: 2,
+        pause: () => calls.push('pause'),
+        resume: () => calls.push('resume'),
+      });
+      [1, 2, 3].forEach((id) => queue.push({ id }));
+      queue.end();
+
+      expect(calls).to.eql(['pause']);
+      expect(await collect(queue)).to.have.length(3);
+      expect(calls).to.eql(['pause', 'resume']);
+    });
+
+    it('should reject with the producer error', async () => {
+      const queue = createBatchQueue({ batchSize: 2 });
+      queue.push({ id: 1 });
+      queue.fail(new Error('failed reading rows'));
+
+      let error: Error | null = null;
+      try {
+        await collect(queue);
+      } catch (err) {
+        error = err as Error;
+      }
+      expect(error).to.have.property('message').to.eql('failed reading rows');
+    });
+  });
+
+  describe('.getTypeCategory', () => {
+    const parameters: [string, string][] = [
+      ['int4', 'number'],
+      ['INTEGER', 'number'],
+      ['decimal(10, 2)', 'number'],
+      ['double precision', 'number'],
+      ['varchar(255)', 'string'],
+      ['character varying', 'string'],
+      ['uniqueidentifier', 'string'],
+      ['timestamptz', 'date'],
+      ['DATETIME', 'date'],
+      ['bool', 'boolean'],
+      ['jsonb', 'json'],
+      ['bytea', 'binary'],
+      ['interval', 'other'],
+      ['point', 'other'],
+    ];
+    parameters.forEach(([dataType, expected]) => {
+      it(`.getTypeCategory('${dataType}') === '${expected}'`, () => {
+        expect(getTypeCategory(dataType)).to.eql(expected);
+      });
+    });
+  });
+
+  describe('.guessFieldsFromRows', () => {
+    it('should guess the fields category from the values of the first row', () => {
+      expect(guessFieldsFromRows([{ id: 1, name: 'dev', data: Buffer.from('') }])).to.eql([
+        { name: 'id', dataType: '', category: 'number' },
+        { name: 'name', dataType: '', category: 'string' },
+        { name: 'data', dataType: '', category: 'binary' },
+      ]);
+    });
+
+    it('should not have fields without rows', () => {
+      expect(guessFieldsFromRows([])).to.eql([]);
+    });
+  });
+
+  describe('.splitStatements', () => {
+    it('should split the script into its statements', () => {
+      expect(splitStatements('SELECT 1;\nINSERT INTO roles VALUES (1);')).to.eql([
+        'SELECT 1;',
+        'INSERT INTO roles VALUES (1);',
+      ]);
+    });
+
+    it('should keep the statements unknown to the parser', () => {
+      expect(splitStatements('VACUUM; SELECT 1;')).to.eql(['VACUUM;', 'SELECT 1;']);
+    });
+  });
+
+  describe('.findWriteStatements', () => {
+    it('should not return the statements reading data', () => {
+      expect(findWriteStatements('SELECT * FROM users; SHOW TABLES; BEGIN; COMMIT;')).to.eql([]);
+    });
+
+    it('should return the statements writing data', () => {
+      expect(
+        findWriteStatements('SELECT * FROM users; DELETE FROM users; DROP TABLE roles;'),
+      ).to.eql(['DELETE FROM users;', 'DROP TABLE roles;']);
+    });
+
+    it('should return the statements which could not be identified', () => {
+      expect(findWriteStatements('VACUUM')).to.eql(['VACUUM']);
+    });
+
+    it('should not return the SELECT statements reading quoted identifiers', () => {
+      expect(findWriteStatements('SELECT `update` FROM t; SELECT [delete] FROM t;')).to.eql([]);
+    });
+
+    it('should return the SELECT statements writing data', () => {
+      expect(
+        findWriteStatements(`
+          SELECT * INTO backup FROM orders;
+          WITH d AS (DELETE FROM orders RETURNING *) SELECT * FROM d;
+          SELECT * FROM orders WHERE note = 'delete' FOR UPDATE;
+        `),
+      ).to.eql([
+        'SELECT * INTO backup FROM orders;',
+        'WITH d AS (DELETE FROM orders RETURNING *) SELECT * FROM d;',
+      ]);
+    });
+  });
+
+  describe('.findDangerousStatements', () => {
+    it('should return UPDATE and DELETE statements without a WHERE clause', () => {
+      expect(
+        findDangerousStatements(`
+          DELETE FROM orders;
+          DELETE FROM orders WHERE id = 1;
+          UPDATE orders SET total = 0;
+          UPDATE orders SET total = 0 WHERE id = 1;
+        `),
+      ).to.eql(['DELETE FROM orders;', 'UPDATE orders SET total = 0;']);
+    });
+
+    it('should ignore the WHERE clauses of subqueries, literals and comments', () => {
+      expect(
+        findDangerousStatements(`
+          UPDATE orders SET total = (SELECT max(total) FROM orders WHERE id = 1);
+          DELETE FROM orders /* WHERE id = 1 */;
+          UPDATE orders SET note = 'where';
+        `),
+      ).to.have.length(3);
+    });
+
+    it('should return destructive DDL statements', () => {
+      expect(
+        findDangerousStatements(
+          'DROP TABLE orders; TRUNCATE TABLE orders; ALTER TABLE orders ADD note text; SELECT 1;',
+        ),
+      ).to.eql([
+        'DROP TABLE orders;',
+        'TRUNCATE TABLE orders;',
+        'ALTER TABLE orders ADD note text;',
+      ]);
+    });
+
+    it('should not return the statements which do not destroy data', () => {
+      expect(
+        findDangerousStatements(`
+          EXPLAIN SELECT * FROM orders;
+          SET search_path TO public;
+          VACUUM;
+          GRANT SELECT ON orders TO reader;
+          CALL refresh_orders();
+        `),
+      ).to.eql([]);
+    });
+
+    it('should return the statements with WITH queries writing without a WHERE clause', () => {
+      expect(
+        findDangerousStatements(`
+          WITH d AS (DELETE FROM orders RETURNING *) SELECT * FROM d;
+          WITH d AS (DELETE FROM orders WHERE id = 1 RETURNING *) SELECT * FROM d;
+          WITH u AS (UPDATE orders SET total = 0 RETURNING id) DELETE FROM returns WHERE id = 1;
+        `),
+      ).to.eql([
+        'WITH d AS (DELETE FROM orders RETURNING *) SELECT * FROM d;',
+        'WITH u AS (UPDATE orders SET total = 0 RETURNING id) DELETE FROM returns WHERE id = 1;',
+      ]);
+    });
+
+    it('should identify the statements with the given dialect', () => {
+      expect(
+        findDangerousStatements(
+          'DELETE FROM [orders]; DELETE FROM [orders] WHERE id = 1;',
+          'mssql',
+        ),
+      ).to.eql(['DELETE FROM [orders];']);
+    });
+  });
 });
@@ -0,0 +1,89 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { CanceledByUserError } from './errors';
+import createLogger from './logger';
+
+const logger = createLogger('db:abort');
+
+/**
+ * The signal given to a `Database` method is kept for the asynchronous calls it makes,
+ * so every query executed by the adapter on its behalf can be aborted.
+ */
+const signals = new AsyncLocalStorage<AbortSignal>();
+
+export function runWithSignal<T>(
+  signal: AbortSignal | undefined,
+  run: () => Promise<T>,
+): Promise<T> {
+  if (!signal) {
+    return run();
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new CanceledByUserError());
+  }
+
+  return new Promise((resolve, reject) => {
+    signals.run(signal, () => {
+      run().then(resolve, reject);
+    });
+  });
+}
+
+/**
+ * Runs queries which must be executed even once aborted, such as rolling back a transaction.
+ */
+export function runWithoutSignal<T>(run: () => Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    signals.exit(() => {
+      run().then(resolve, reject);
+    });
+  });
+}
+
+/**
+ * Read by the adapters before obtaining a connection, as the driver callbacks
+ * may not be called within the context of the query.
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return signals.getStore();
+}
+
+/**
+ * Interrupts the running query once the signal is aborted, failing it with a
+ * CanceledByUserError. Without a way to interrupt the query, it is abandoned.
+ */
+export function abortable<T>(
+  signal: AbortSignal | undefined,
+  run: () => Promise<T>,
+  interrupt?: () => unknown,
+): Promise<T> {
+  if (!signal) {
+    return run();
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new CanceledByUserError());
+  }
+
+  return new Promise((resolve, reject) => {
+    let aborted = false;
+    const onAbort = () => {
+      aborted = true;
+      if (!interrupt) {
+        reject(new CanceledByUserError());
+        return;
+      }
+
+      runWithoutSignal(async () => {
+        await interrupt();
+      }).catch((err) => logger().error('failed interrupting the aborted query %j', err));
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    run()
+      .then(resolve, (err) => reject(aborted ? new CanceledByUserError() : err))
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -1,3 +1,7 @@
+import { normalizeRows } from '../normalize';
+import { StatementSplitter } from '../splitter';
+import { splitStatements } from '../utils';
+
 import type { Database } from '../database';
 import type { DatabaseFilter, SchemaFilter } from '../filters';
 import type { Server } from '../server';
@@ -8,18 +12,129 @@ export interface AdapterVersion {
   string: string;
 }
 
+/**
+ * Values bound to the query placeholders, either by position or by name.
+ */
+export type QueryParams = unknown[] | { [name: string]: unknown };
+
 export interface QueryArgs {
   query: string;
-  params?: unknown[];
+  params?: QueryParams;
   multiple?: boolean;
+  /**
+   * Queries are internal unless flagged otherwise. User queries go through the
+   * middlewares in `Database` before reaching the adapter, so they are flagged
+   * to not go through them again.
+   */
+  internal?: boolean;
+  timeout?: number;
+}
+
+export type ConsistencyLevel =
+  | 'any'
+  | 'one'
+  | 'two'
+  | 'three'
+  | 'quorum'
+  | 'all'
+  | 'localQuorum'
+  | 'eachQuorum'
+  | 'serial'
+  | 'localSerial'
+  | 'localOne';
+
+/**
+ * Query options supported by Cassandra only, which the other adapters ignore.
+ */
+export interface CassandraQueryOptions {
+  consistency?: ConsistencyLevel;
+  /**
+   * Consistency of the Paxos phase of lightweight transactions.
+   */
+  serialConsistency?: ConsistencyLevel;
+  /**
+   * Number of rows fetched per page. When set, only a page is fetched and the
+   * result holds the `pageState` to give back for fetching the next one.
+   */
+  fetchSize?: number;
+  pageState?: string;
+  /**
+   * Returns the trace events of the query in the result `trace`.
+   */
+  traceQuery?: boolean;
+}
+
+export interface AdapterQueryOptions extends CassandraQueryOptions {
+  /**
+   * Milliseconds after which the query fails with a QueryTimeoutError,
+   * no timeout when undefined or zero.
+   */
+  timeout?: number;
+}
+
+export type ResultFieldCategory =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'binary'
+  | 'json'
+  | 'other';
+
+/**
+ * Column of a query result. Properties the database does not report about
+ * the column are left undefined.
+ */
+export interface ResultField {
+  name: string;
+  dataType: string;
+  category: ResultFieldCategory;
+  nullable?: boolean;
+  table?: string;
+  column?: string;
+  precision?: number;
+  scale?: number;
+}
+
+export type QueryMessageSeverity = 'info' | 'notice' | 'warning' | 'error';
+
+/**
+ * Message sent by the server while executing a query, such as a PostgreSQL
+ * NOTICE, a SQL Server PRINT output or a MySQL warning.
+ */
+export interface QueryMessage {
+  severity: QueryMessageSeverity;
+  text: string;
+  code?: string | number;
+  /**
+   * Index of the statement which raised the message within the executed query,
+   * when the database reports it.
+   */
+  statementIndex?: number;
+}
+
+/**
+ * Event of a query trace, where `elapsed` is in microseconds since the
+ * request was received by the `source` node.
+ */
+export interface QueryTraceEvent {
+  source: string;
+  activity: string;
+  elapsed: number;
 }
 
 export interface QueryRowResult {
   command: string;
   rows: unknown;
-  fields: unknown;
+  fields: ResultField[];
   rowCount?: number;
   affectedRows?: number;
+  messages: QueryMessage[];
+  /**
+   * State to give back in the query options for fetching the next page of rows.
+   */
+  pageState?: string;
+  trace?: QueryTraceEvent[];
 }
 
 export interface ListTableResult {
@@ -35,10 +150,99 @@ export interface ListRoutineResult {
   routineType: string;
 }
 
+/**
+ * Column of a table. Properties which do not apply to the column or which the
+ * database does not have are null.
+ */
 export interface ListTableColumnsResult {
   columnName: string;
+  /**
+   * Name of the type, without its length, precision or scale on most databases.
+   */
   dataType: string;
+  /**
+   * Type as it would be declared, such as `varchar(255)` or `numeric(10,2)`.
+   */
+  fullDataType: string;
+  /**
+   * Position of the column in the table, starting at 1.
+   */
+  ordinalPosition: number;
+  nullable: boolean;
+  /**
+   * Expression of the default value.
+   */
+  defaultValue: string | null;
+  length: number | null;
+  precision: number | null;
+  scale: number | null;
+  isIdentity: boolean;
+  /**
+   * Whether the database generates the value on insert, such as identity and serial
+   * columns, MySQL AUTO_INCREMENT or SQLite rowid aliases.
+   */
+  isAutoIncrement: boolean;
+  /**
+   * Whether the value is computed from an expression.
+   */
+  isGenerated: boolean;
+  collation: string | null;
+  comment: string | null;
+  /**
+   * Kind of Cassandra column: `partition_key`, `clustering`, `regular` or `static`.
+   */
+  kind?: string;
+}
+
+export interface TableIndexColumn {
+  /**
+   * Name of the column, or the expression of an expression index. Null for
+   * the expressions the database does not report.
+   */
+  name: string | null;
+  order: 'ASC' | 'DESC';
+}
+
+export interface TableIndexResult {
+  name: string;
+  /**
+   * Key columns of the index, in the order of the index.
+   */
+  columns: TableIndexColumn[];
+  unique: boolean;
+  primary: boolean;
+  /**
+   * Access method, such as `btree`, `hash` or `gin`, or `clustered` and
+   * `nonclustered` for SQL Server.
+   */
+  method: string | null;
+  /**
+   * Condition of a partial index.
+   */
+  predicate: string | null;
+  /**
+   * Non-key columns stored in the index.
+   */
+  includedColumns: string[];
+}
+
+export type TriggerTiming = 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+
+export type TriggerEvent = 'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE';
+
+export interface TableTriggerResult {
+  name: string;
+  timing: TriggerTiming;
+  events: TriggerEvent[];
+  level: 'ROW' | 'STATEMENT';
+  enabled: boolean;
+  /**
+   * Function executed by a PostgreSQL trigger. Null on the other databases, where
+   * the trigger has its own body.
+   */
+  function: string | null;
 }
+
 export interface TableKeysResult {
   columnName: string;
   keyType: string;
@@ -46,8 +250,130 @@ export interface TableKeysResult {
   referencedTable: string | null;
 }
 
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
+export interface ForeignKeyResult {
+  /**
+   * Name of the constraint. Null for SQLite, which does not report it.
+   */
+  name: string | null;
+  /**
+   * Local columns, in the order of the key.
+   */
+  columns: string[];
+  referencedSchema: string | null;
+  referencedTable: string;
+  /**
+   * Referenced columns, matching the local columns by position.
+   */
+  referencedColumns: string[];
+  onDelete: ForeignKeyAction;
+  onUpdate: ForeignKeyAction;
+  /**
+   * Null for SQLite, which does not report the deferrability.
+   */
+  deferrable: boolean | null;
+  initiallyDeferred: boolean | null;
+}
+
+export type TableConstraintType = 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE' | 'CHECK' | 'EXCLUDE';
+
+export interface TableConstraintResult {
+  /**
+   * Name of the constraint. Null when the database does not report it, such as for the
+   * SQLite keys.
+   */
+  name: string | null;
+  type: TableConstraintType;
+  /**
+   * Columns of the key, in order, or the columns a CHECK constraint is declared on
+   * when the database reports them.
+   */
+  columns: string[];
+  /**
+   * Clause of a CHECK constraint, or the definition of a PostgreSQL exclusion constraint.
+   */
+  expression: string | null;
+}
+
 export type QueryReturn = { execute: () => Promise<QueryRowResult[]>; cancel: () => void };
 
+/**
+ * A single connection reserved for the caller until it is released, so
+ * consecutive queries are guaranteed to run in the same database session.
+ */
+export interface AdapterConnection {
+  query: (queryText: string, params?: QueryParams, options?: AdapterQueryOptions) => QueryReturn;
+  executeQuery: (
+    queryText: string,
+    params?: QueryParams,
+    options?: AdapterQueryOptions,
+  ) => Promise<QueryRowResult[]>;
+  release: () => Promise<void>;
+}
+
+export const ISOLATION_LEVELS = [
+  'READ UNCOMMITTED',
+  'READ COMMITTED',
+  'REPEATABLE READ',
+  'SERIALIZABLE',
+] as const;
+
+export type IsolationLevel = typeof ISOLATION_LEVELS[number];
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+}
+
+export interface ExplainOptions {
+  /**
+   * Executes the query to include the actual rows in the plan.
+   */
+  analyze?: boolean;
+}
+
+/**
+ * A node of the execution plan, normalized across the different database plan formats.
+ */
+export interface ExplainPlanNode {
+  operation: string;
+  relation?: string;
+  estimatedRows?: number;
+  actualRows?: number;
+  cost?: number;
+  children: ExplainPlanNode[];
+}
+
+export const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
+export interface QueryStreamOptions {
+  batchSize?: number;
+}
+
+export interface QueryStreamBatch {
+  fields: ResultField[];
+  rows: unknown[];
+}
+
+export interface QueryStreamReturn extends AsyncIterable<QueryStreamBatch> {
+  cancel: () => Promise<void> | void;
+}
+
+export const BULK_INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Kept below the lowest limit of parameters of a statement across the databases.
+ */
+export const BULK_INSERT_MAX_PARAMETERS = 999;
+
+export interface BulkInsertOptions {
+  schema?: string;
+}
+
+export interface BulkInsertResult {
+  rowsInserted: number;
+}
+
 export abstract class AbstractAdapter {
   readonly server;
   readonly database;
@@ -99,11 +425,21 @@ export abstract class AbstractAdapter {
     return Promise.resolve([]);
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  describeTableTriggers(table: string, schema?: string): Promise<TableTriggerResult[]> {
+    return Promise.resolve([]);
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   listTableIndexes(table: string, schema?: string): Promise<string[]> {
     return Promise.resolve([]);
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  describeTableIndexes(table: string, schema?: string): Promise<TableIndexResult[]> {
+    return Promise.resolve([]);
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   getTableReferences(table: string, schema?: string): Promise<string[]> {
     return Promise.resolve([]);
@@ -114,6 +450,16 @@ export abstract class AbstractAdapter {
     return Promise.resolve([]);
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  listForeignKeys(table: string, schema?: string): Promise<ForeignKeyResult[]> {
+    return Promise.resolve([]);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  listTableConstraints(table: string, schema?: string): Promise<TableConstraintResult[]> {
+    return Promise.resolve([]);
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   getQuerySelectTop(table: string, limit: number, schema?: string): string {
     return `SELECT * FROM ${this.wrapIdentifier(table)} LIMIT ${limit}`;
@@ -134,14 +480,202 @@ export abstract class AbstractAdapter {
     return Promise.resolve([]);
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getTriggerCreateScript(trigger: string, schema?: string): Promise<string[]> {
+    return Promise.resolve([]);
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   truncateAllTables(schema?: string): Promise<void> {
     return Promise.resolve();
   }
 
-  abstract query(queryText: string): QueryReturn;
+  abstract query(
+    queryText: string,
+    params?: QueryParams,
+    options?: AdapterQueryOptions,
+  ): QueryReturn;
+
+  abstract executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options?: AdapterQueryOptions,
+  ): Promise<QueryRowResult[]>;
+
+  /**
+   * Inserts the rows in batches of multi-row INSERT statements. Adapters override it
+   * with the fastest way of loading data supported by their database.
+   */
+  async bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    const batchSize = Math.max(1, Math.floor(BULK_INSERT_MAX_PARAMETERS / columns.length));
+    const target = this.getBulkInsertTarget(table, columns, options.schema);
+
+    let rowsInserted = 0;
+    for (let offset = 0; offset < rows.length; offset += batchSize) {
+      const batch = rows.slice(offset, offset + batchSize);
+      const values = batch.map(
+        (row, rowIndex) =>
+          `(${row
+            .map((_, index) => this.getParameterPlaceholder(rowIndex * columns.length + index))
+            .join(', ')})`,
+      );
+
+      const [result] = await this.executeQuery(
+        `INSERT INTO ${target} VALUES ${values.join(', ')}`,
+        batch.flat(),
+      );
+      rowsInserted += result?.affectedRows ?? batch.length;
+    }
+
+    return { rowsInserted };
+  }
+
+  /**
+   * The table and its columns, such as `"public"."users" ("id", "name")`.
+   */
+  getBulkInsertTarget(table: string, columns: string[], schema?: string): string {
+    const tableName = schema
+      ? `${this.wrapIdentifier(schema)}.${this.wrapIdentifier(table)}`
+      : this.wrapIdentifier(table);
+    return `${tableName} (${columns.map((column) => this.wrapIdentifier(column)).join(', ')})`;
+  }
+
+  /**
+   * Returns the execution plan of the query, one tree per plan root.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  explain(queryText: string, options: ExplainOptions = {}): Promise<ExplainPlanNode[]> {
+    return Promise.reject(new Error('Execution plans are not supported by this adapter.'));
+  }
+
+  /**
+   * Executes a query yielding its rows in batches instead of buffering the whole result.
+   * Adapters without a native way to stream the rows fallback to buffering the result
+   * in memory and splitting it in batches.
+   */
+  stream(queryText: string, options: QueryStreamOptions = {}): QueryStreamReturn {
+    const query = this.query(queryText);
+    const batchSize = options.batchSize || DEFAULT_STREAM_BATCH_SIZE;
+
+    return {
+      [Symbol.asyncIterator]: () => bufferedBatches(query, batchSize),
+      cancel: () => query.cancel(),
+    };
+  }
+
+  /**
+   * Splits a script into the statements it is made of, to be executed one by one.
+   */
+  splitStatements(queryText: string): string[] {
+    return splitStatements(queryText);
+  }
+
+  /**
+   * Creates the splitter reading the statements of a script in chunks, such as a file.
+   */
+  createStatementSplitter(): StatementSplitter {
+    return new StatementSplitter();
+  }
+
+  /**
+   * Reserves a connection out of the adapter pool. Adapters without a way to
+   * pin a connection do not support transactions.
+   */
+  openConnection(): Promise<AdapterConnection> {
+    return Promise.reject(new Error('Dedicated connections are not supported by this adapter.'));
+  }
+
+  getBeginTransactionQuery(options: TransactionOptions = {}): string {
+    if (options.isolationLevel) {
+      return `START TRANSACTION ISOLATION LEVEL ${options.isolationLevel}`;
+    }
+    return 'BEGIN';
+  }
+
+  getCommitTransactionQuery(): string {
+    return 'COMMIT';
+  }
+
+  getRollbackTransactionQuery(): string {
+    return 'ROLLBACK';
+  }
+
+  getSavepointQuery(name: string): string {
+    return `SAVEPOINT ${this.wrapIdentifier(name)}`;
+  }
+
+  getRollbackToSavepointQuery(name: string): string {
+    return `ROLLBACK TO SAVEPOINT ${this.wrapIdentifier(name)}`;
+  }
 
-  abstract executeQuery(queryText: string): Promise<QueryRowResult[]>;
+  /**
+   * Returns null for databases where savepoints cannot be released.
+   */
+  getReleaseSavepointQuery(name: string): string | null {
+    return `RELEASE SAVEPOINT ${this.wrapIdentifier(name)}`;
+  }
+
+  /**
+   * Runs the queries issued by the adapter through the server middlewares.
+   */
+  runMiddleware<T>(queryArgs: QueryArgs, run: (queryArgs: QueryArgs) => Promise<T>): Promise<T> {
+    if (queryArgs.internal === false) {
+      return run(queryArgs);
+    }
+
+    return this.database.runMiddleware(queryArgs, run);
+  }
+
+  /**
+   * Applies the value normalization configured for the server to the result rows.
+   */
+  normalizeRows(rows: unknown[], fields: ResultField[]): unknown[] {
+    const options = this.server.config.normalize;
+    return options ? normalizeRows(rows, fields, options) : rows;
+  }
+
+  normalizeResults(results: QueryRowResult[]): QueryRowResult[] {
+    return results.map((result) => ({
+      ...result,
+      rows: this.normalizeRows(result.rows as unknown[], result.fields),
+    }));
+  }
+
+  async *normalizeBatches(
+    batches: AsyncIterable<QueryStreamBatch>,
+  ): AsyncGenerator<QueryStreamBatch> {
+    for await (const batch of batches) {
+      yield { ...batch, rows: this.normalizeRows(batch.rows, batch.fields) };
+    }
+  }
 
   abstract wrapIdentifier(value: string): string;
+
+  /**
+   * Native placeholder of the positional parameter at the given index (zero based).
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getParameterPlaceholder(index: number): string {
+    return '?';
+  }
+}
+
+async function* bufferedBatches(
+  query: QueryReturn,
+  batchSize: number,
+): AsyncGenerator<QueryStreamBatch> {
+  const results = await query.execute();
+  for (const result of results) {
+    const rows = (result.rows as unknown[]) || [];
+    let offset = 0;
+    do {
+      yield { fields: result.fields, rows: rows.slice(offset, offset + batchSize) };
+      offset += batchSize;
+    } while (offset < rows.length);
+  }
 }
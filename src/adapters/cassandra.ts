@@ -1,13 +1,35 @@
 import * as cassandra from 'cassandra-driver';
 import { Database } from '../database';
 
+import { abortable, currentSignal } from '../abort';
+import { CanceledByUserError, QueryTimeoutError } from '../errors';
 import createLogger from '../logger';
 import { Server } from '../server';
-import { identifyCommands } from '../utils';
-import { AbstractAdapter, QueryRowResult } from './abstract_adapter';
+import { getTypeCategory, identifyCommands } from '../utils';
+import { AbstractAdapter, DEFAULT_STREAM_BATCH_SIZE, QueryRowResult } from './abstract_adapter';
+
+import type {
+  AdapterQueryOptions,
+  BulkInsertOptions,
+  BulkInsertResult,
+  ConsistencyLevel,
+  ListTableColumnsResult,
+  QueryArgs,
+  QueryParams,
+  QueryReturn,
+  QueryStreamBatch,
+  QueryStreamOptions,
+  QueryStreamReturn,
+  QueryTraceEvent,
+  ResultField,
+  TableIndexResult,
+} from './abstract_adapter';
 
 const logger = createLogger('db:clients:cassandra');
 
+// kept small as the servers reject batches larger than 50kb by default
+const INSERT_BATCH_SIZE = 50;
+
 declare module 'cassandra-driver' {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace metadata {
@@ -15,6 +37,24 @@ declare module 'cassandra-driver' {
       keyspaces: { [name: string]: { name: string; strategy: string } };
     }
   }
+
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace types {
+    function getDataTypeNameByCode(type: ColumnType): string;
+  }
+}
+
+interface ColumnType {
+  code: number;
+  info: unknown;
+}
+
+interface QueryState {
+  canceled: boolean;
+}
+
+interface TraceSession {
+  events: { source: { toString(): string }; activity: string; elapsed: number }[];
 }
 
 interface Config {
@@ -124,21 +164,13 @@ export default class CassandraAdapter extends AbstractAdapter {
       }
 
       const params = [this.database.database];
-      this.client.execute(sql, params, (err, data) => {
-        if (err) return reject(err);
+      this.execute({ query: sql, params }).then((data) => {
         resolve(data.rows.map((row) => ({ name: row.name as string })));
-      });
+      }, reject);
     });
   }
 
-  listTableColumns(
-    table: string,
-  ): Promise<
-    {
-      columnName: string;
-      dataType: string;
-    }[]
-  > {
+  listTableColumns(table: string): Promise<ListTableColumnsResult[]> {
     const cassandra2 = this.version.version[0] === '2';
     return new Promise((resolve, reject) => {
       let sql;
@@ -151,15 +183,14 @@ export default class CassandraAdapter extends AbstractAdapter {
         `;
       } else {
         sql = `
-          SELECT position, column_name, type
+          SELECT position, column_name, type, kind
           FROM system_schema.columns
           WHERE keyspace_name = ?
             AND table_name = ?
         `;
       }
       const params = [this.database.database, table];
-      this.client.execute(sql, params, (err, data) => {
-        if (err) return reject(err);
+      this.execute({ query: sql, params }).then((data) => {
         resolve(
           data.rows
             // force pks be placed at the results beginning
@@ -169,20 +200,95 @@ export default class CassandraAdapter extends AbstractAdapter {
               }
               return b.position - a.position;
             })
-            .map((row) => {
+            .map((row, index) => {
               const rowType = cassandra2
                 ? mapLegacyDataTypes(row.type as string)
                 : (row.type as string);
+              // the legacy schema has the kind in the type column, selected as the position
+              const kind = cassandra2
+                ? (row.position as string).replace('clustering_key', 'clustering')
+                : (row.kind as string);
               return {
                 columnName: row.column_name as string,
                 dataType: rowType,
+                fullDataType: rowType,
+                ordinalPosition: index + 1,
+                // only the primary key columns cannot be null
+                nullable: kind !== 'partition_key' && kind !== 'clustering',
+                defaultValue: null,
+                length: null,
+                precision: null,
+                scale: null,
+                isIdentity: false,
+                isAutoIncrement: false,
+                isGenerated: false,
+                collation: null,
+                comment: null,
+                kind,
               };
             }),
         );
-      });
+      }, reject);
     });
   }
 
+  /**
+   * Describes the secondary indexes, which are on a single column.
+   */
+  async describeTableIndexes(table: string): Promise<TableIndexResult[]> {
+    const params = [this.database.database, table];
+
+    let indexes: { name: string; column: string; method: string }[];
+    if (this.version.version[0] === '2') {
+      const data = await this.execute({
+        query: `
+          SELECT column_name, index_name, index_type
+          FROM system.schema_columns
+          WHERE keyspace_name = ?
+            AND columnfamily_name = ?
+        `,
+        params,
+      });
+      indexes = data.rows
+        .filter((row) => row.index_name)
+        .map((row) => ({
+          name: row.index_name as string,
+          column: row.column_name as string,
+          method: (row.index_type as string).toLowerCase(),
+        }));
+    } else {
+      const data = await this.execute({
+        query: `
+          SELECT index_name, kind, options
+          FROM system_schema.indexes
+          WHERE keyspace_name = ?
+            AND table_name = ?
+        `,
+        params,
+      });
+      indexes = data.rows.map((row) => {
+        const options = row.options as { target: string; class_name?: string };
+        return {
+          name: row.index_name as string,
+          // such as "email", or "keys(settings)" for the indexes on the keys of a map
+          column: options.target,
+          // the custom indexes, such as SASI, are named by their class
+          method: options.class_name || (row.kind as string).toLowerCase(),
+        };
+      });
+    }
+
+    return indexes.map(({ name, column, method }) => ({
+      name,
+      columns: [{ name: column, order: 'ASC' }],
+      unique: false,
+      primary: false,
+      method,
+      predicate: null,
+      includedColumns: [],
+    }));
+  }
+
   getTableKeys(
     table: string,
   ): Promise<
@@ -233,22 +339,237 @@ export default class CassandraAdapter extends AbstractAdapter {
     await Promise.all(promises);
   }
 
-  query(): never {
-    throw new Error('"query" function is not implementd by cassandra client.');
+  /**
+   * Cassandra has no way to cancel a running query, so canceling it stops
+   * fetching the next pages and discards the results in flight.
+   */
+  query(queryText: string, params?: QueryParams, options: AdapterQueryOptions = {}): QueryReturn {
+    const state: QueryState = { canceled: false };
+
+    return {
+      execute: () => this.executeStatements(queryText, params, options, state),
+
+      cancel: () => {
+        state.canceled = true;
+      },
+    };
   }
 
-  executeQuery(queryText: string): Promise<QueryRowResult[]> {
-    const commands = identifyCommands(queryText).map((item) => item.type);
+  executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+  ): Promise<QueryRowResult[]> {
+    return this.executeStatements(queryText, params, options, { canceled: false });
+  }
 
-    return new Promise((resolve, reject) => {
-      this.client.execute(queryText, (err, data) => {
-        if (err) return reject(err);
+  /**
+   * The driver executes a single statement at a time, so the statements of the
+   * query are executed one by one.
+   */
+  async executeStatements(
+    queryText: string,
+    params: QueryParams | undefined,
+    options: AdapterQueryOptions,
+    state: QueryState,
+  ): Promise<QueryRowResult[]> {
+    const statements = this.splitStatements(queryText);
+    if (params && statements.length > 1) {
+      throw new Error('Query parameters are only supported with a single statement');
+    }
+
+    if (options.pageState && statements.length > 1) {
+      throw new Error('Page state is only supported with a single statement');
+    }
+
+    const results: QueryRowResult[] = [];
+    for (const [statementIndex, statement] of statements.entries()) {
+      results.push(await this.executeStatement(statement, statementIndex, params, options, state));
+    }
+
+    return this.normalizeResults(results);
+  }
+
+  /**
+   * Reads every page of the statement results, as the driver only returns the first one,
+   * unless the query is fetched a page at a time.
+   */
+  async executeStatement(
+    statement: string,
+    statementIndex: number,
+    params: QueryParams | undefined,
+    options: AdapterQueryOptions,
+    state: QueryState,
+  ): Promise<QueryRowResult> {
+    const queryOptions: cassandra.QueryOptions = {
+      // Preparing the query allows the driver to encode the parameters with the
+      // column types, and it is required for binding parameters by name
+      prepare: !!params,
+      consistency: parseConsistency(options.consistency),
+      serialConsistency: parseConsistency(options.serialConsistency),
+      fetchSize: options.fetchSize,
+      traceQuery: options.traceQuery,
+    };
+    // the driver only has a client-side timeout, where zero disables its default one
+    if (options.timeout !== undefined) {
+      queryOptions.readTimeout = options.timeout;
+    }
+
+    const rows: cassandra.types.Row[] = [];
+    const trace: QueryTraceEvent[] = [];
+    let pageState = options.pageState;
+    let data: cassandra.types.ResultSet;
+    do {
+      if (state.canceled) {
+        throw new CanceledByUserError();
+      }
 
-        resolve([parseRowQueryResult(data, commands[0])]);
+      try {
+        data = await this.execute(
+          { query: statement, params, internal: false },
+          { ...queryOptions, pageState },
+        );
+      } catch (err) {
+        if (options.timeout && err instanceof cassandra.errors.OperationTimedOutError) {
+          throw new QueryTimeoutError(options.timeout);
+        }
+        throw err;
+      }
+
+      if (state.canceled) {
+        throw new CanceledByUserError();
+      }
+
+      rows.push(...(data.rows || []));
+      if (options.traceQuery) {
+        trace.push(...(await this.getTraceEvents(data.info.traceId)));
+      }
+      pageState = data.pageState;
+    } while (pageState && !options.fetchSize);
+
+    const [command] = identifyCommands(statement).map((item) => item.type);
+    const result = parseRowQueryResult(data, rows, command, statementIndex);
+    if (pageState) {
+      result.pageState = pageState;
+    }
+    if (options.traceQuery) {
+      result.trace = trace;
+    }
+
+    return result;
+  }
+
+  getTraceEvents(traceId: cassandra.types.Uuid): Promise<QueryTraceEvent[]> {
+    return new Promise((resolve, reject) => {
+      this.client.metadata.getTrace(traceId, (err: unknown, trace: TraceSession) => {
+        if (err) {
+          return reject(err);
+        }
+        resolve(
+          trace.events.map(({ source, activity, elapsed }) => ({
+            source: source.toString(),
+            activity,
+            elapsed,
+          })),
+        );
       });
     });
   }
 
+  /**
+   * Cassandra has no way to cancel a running query, so canceling the stream
+   * stops fetching the next pages and discards the one in flight.
+   */
+  stream(queryText: string, options: QueryStreamOptions = {}): QueryStreamReturn {
+    const state: QueryState = { canceled: false };
+    const batchSize = options.batchSize || DEFAULT_STREAM_BATCH_SIZE;
+
+    return {
+      [Symbol.asyncIterator]: () => this.streamPages(queryText, batchSize, state),
+
+      cancel: () => {
+        state.canceled = true;
+      },
+    };
+  }
+
+  async *streamPages(
+    queryText: string,
+    batchSize: number,
+    state: QueryState,
+  ): AsyncGenerator<QueryStreamBatch> {
+    let pageState: string | undefined;
+
+    do {
+      const data = await this.execute({ query: queryText }, { fetchSize: batchSize, pageState });
+
+      if (state.canceled) {
+        throw new CanceledByUserError();
+      }
+
+      const fields = parseFields(data.columns);
+      yield { fields, rows: this.normalizeRows(data.rows || [], fields) };
+      pageState = data.pageState;
+    } while (pageState);
+  }
+
+  /**
+   * The rows are inserted in unlogged batches of a prepared statement, as batches
+   * spanning several partitions would not be atomic anyway.
+   */
+  async bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    const target = this.getBulkInsertTarget(table, columns, options.schema);
+    const query = `INSERT INTO ${target} VALUES (${columns.map(() => '?').join(', ')})`;
+
+    for (let offset = 0; offset < rows.length; offset += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(offset, offset + INSERT_BATCH_SIZE);
+      await this.executeBatch(batch.map((params) => ({ query, params })));
+    }
+
+    return { rowsInserted: rows.length };
+  }
+
+  executeBatch(queries: { query: string; params: unknown[] }[]): Promise<void> {
+    const signal = currentSignal();
+
+    return abortable(
+      signal,
+      () =>
+        new Promise((resolve, reject) => {
+          this.client.batch(queries, { prepare: true, logged: false }, (err) => {
+            if (err) return reject(err);
+            resolve();
+          });
+        }),
+    );
+  }
+
+  execute(
+    queryArgs: QueryArgs,
+    options: cassandra.QueryOptions = {},
+  ): Promise<cassandra.types.ResultSet> {
+    const signal = currentSignal();
+
+    // the driver has no way to interrupt a query, so an aborted query is abandoned
+    return this.runMiddleware(queryArgs, ({ query, params }) =>
+      abortable(
+        signal,
+        () =>
+          new Promise((resolve, reject) => {
+            this.client.execute(query, params, options, (err, data) => {
+              if (err) return reject(err);
+              resolve(data);
+            });
+          }),
+      ),
+    );
+  }
+
   wrapIdentifier(value: string): string {
     return wrapIdentifier(value);
   }
@@ -291,14 +612,43 @@ function mapLegacyDataTypes(validator: string): string {
   }
 }
 
-function parseRowQueryResult(data: cassandra.types.ResultSet, command: string): QueryRowResult {
+function parseConsistency(level?: ConsistencyLevel): number | undefined {
+  if (level === undefined) {
+    return undefined;
+  }
+
+  const consistency = cassandra.types.consistencies[level];
+  if (consistency === undefined) {
+    throw new Error(`Unknown consistency level "${level}"`);
+  }
+  return consistency;
+}
+
+function parseFields(columns?: { [key: string]: unknown }[]): ResultField[] {
+  return (<{ name: string; type: ColumnType }[]>(columns || [])).map(({ name, type }) => {
+    const dataType = cassandra.types.getDataTypeNameByCode(type);
+    return { name, dataType, category: getTypeCategory(dataType) };
+  });
+}
+
+function parseRowQueryResult(
+  data: cassandra.types.ResultSet,
+  rows: cassandra.types.Row[],
+  command: string,
+  statementIndex: number,
+): QueryRowResult {
   // Fallback in case the identifier could not reconize the command
   const isSelect = command ? command === 'SELECT' : Array.isArray(data.rows);
   return {
     command: command || <string>(isSelect && 'SELECT'),
-    rows: data.rows || [],
-    fields: data.columns || [],
-    rowCount: isSelect ? data.rowLength || 0 : undefined,
+    rows,
+    fields: parseFields(data.columns),
+    rowCount: isSelect ? rows.length : undefined,
     affectedRows: !isSelect && !isNaN(data.rowLength) ? data.rowLength : undefined,
+    messages: (data.info.warnings || []).map((text) => ({
+      severity: 'warning',
+      text,
+      statementIndex,
+    })),
   };
 }
@@ -53,7 +53,7 @@ export const ADAPTERS: Adapter[] = [
     adapter: PostgresqlAdapter,
     defaultDatabase: 'postgres',
     defaultPort: 5432,
-    disabledFeatures: ['server:domain'],
+    disabledFeatures: ['server:domain', 'explain'],
   },
   {
     key: 'sqlserver',
@@ -94,7 +94,10 @@ export const ADAPTERS: Adapter[] = [
       'server:schema',
       'server:domain',
       'scriptCreateTable',
-      'cancelQuery',
+      'transaction',
+      'session',
+      'explain',
+      'script',
     ],
   },
 ];
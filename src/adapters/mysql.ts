@@ -2,20 +2,58 @@ import ed25519AuthPlugin from '@coresql/mysql2-auth-ed25519';
 import mysql, { PoolConnection } from 'mysql2';
 import { identify } from 'sql-query-identifier';
 
+import { abortable, currentSignal, runWithoutSignal } from '../abort';
+import { hasDelimiterDirective, splitDelimiterStatements } from '../directives';
+import { QueryTimeoutError } from '../errors';
 import createLogger from '../logger';
-import { appendSemiColon, createCancelablePromise } from '../utils';
-import { AbstractAdapter } from './abstract_adapter';
+import { StatementSplitter } from '../splitter';
+import {
+  appendSemiColon,
+  createBatchQueue,
+  createCancelablePromise,
+  getTypeCategory,
+  groupRows,
+  runWithTimeout,
+  splitStatements,
+} from '../utils';
+import {
+  AbstractAdapter,
+  BULK_INSERT_BATCH_SIZE,
+  DEFAULT_STREAM_BATCH_SIZE,
+} from './abstract_adapter';
 
 import type { Result } from 'sql-query-identifier';
 import type {
+  AdapterConnection,
+  AdapterQueryOptions,
+  BulkInsertOptions,
+  BulkInsertResult,
+  ExplainOptions,
+  ExplainPlanNode,
+  ForeignKeyAction,
+  ForeignKeyResult,
   QueryArgs,
+  QueryMessage,
+  QueryMessageSeverity,
+  QueryParams,
   QueryRowResult,
   QueryReturn,
+  QueryStreamBatch,
+  QueryStreamOptions,
+  QueryStreamReturn,
   ListTableResult,
+  ResultField,
   ListViewResult,
   ListRoutineResult,
   ListTableColumnsResult,
+  TableConstraintResult,
+  TableConstraintType,
+  TableIndexResult,
   TableKeysResult,
+  TableTriggerResult,
+  TriggerEvent,
+  TriggerTiming,
+  TransactionOptions,
 } from './abstract_adapter';
 import type { Database } from '../database';
 import type { DatabaseFilter } from '../filters';
@@ -26,8 +64,13 @@ const logger = createLogger('db:clients:mysql');
 const mysqlErrors = {
   EMPTY_QUERY: 'ER_EMPTY_QUERY',
   CONNECTION_LOST: 'PROTOCOL_CONNECTION_LOST',
+  QUERY_INTERRUPTED: 'ER_QUERY_INTERRUPTED',
+  QUERY_TIMEOUT: 'ER_QUERY_TIMEOUT',
 };
 
+// the driver has no code for the MariaDB specific errors
+const MARIADB_STATEMENT_TIMEOUT_ERRNO = 1969;
+
 declare module 'mysql2/typings/mysql/lib/PoolConnection' {
   interface PoolConnection {
     _fatalError: Error | null;
@@ -35,6 +78,76 @@ declare module 'mysql2/typings/mysql/lib/PoolConnection' {
   }
 }
 
+interface StreamState {
+  pid: number | null;
+  canceling: boolean;
+}
+
+const WARNING_LEVELS: { [level: string]: QueryMessageSeverity } = {
+  Note: 'notice',
+  Warning: 'warning',
+  Error: 'error',
+};
+
+const BINARY_CHARSET = 63;
+
+const FIELD_FLAGS = {
+  NOT_NULL: 1,
+  UNSIGNED: 32,
+};
+
+const FIELD_TYPES: { [code: number]: string } = {
+  0: 'DECIMAL',
+  1: 'TINYINT',
+  2: 'SMALLINT',
+  3: 'INT',
+  4: 'FLOAT',
+  5: 'DOUBLE',
+  6: 'NULL',
+  7: 'TIMESTAMP',
+  8: 'BIGINT',
+  9: 'MEDIUMINT',
+  10: 'DATE',
+  11: 'TIME',
+  12: 'DATETIME',
+  13: 'YEAR',
+  14: 'DATE',
+  15: 'VARCHAR',
+  16: 'BIT',
+  245: 'JSON',
+  246: 'DECIMAL',
+  247: 'ENUM',
+  248: 'SET',
+  249: 'TINYBLOB',
+  250: 'MEDIUMBLOB',
+  251: 'LONGBLOB',
+  252: 'BLOB',
+  253: 'VARCHAR',
+  254: 'CHAR',
+  255: 'GEOMETRY',
+};
+
+interface PlanObject {
+  [key: string]: unknown;
+}
+
+/**
+ * Nested plan keys which describe the operation itself rather than other operations.
+ */
+const PLAN_DETAIL_KEYS = ['cost_info', 'used_columns', 'possible_keys', 'used_key_parts', 'ref'];
+
+const PLAN_ACCESS_TYPES: { [accessType: string]: string } = {
+  ALL: 'Full Table Scan',
+  index: 'Full Index Scan',
+  range: 'Index Range Scan',
+  ref: 'Index Lookup',
+  eq_ref: 'Unique Index Lookup',
+  ref_or_null: 'Index Lookup',
+  const: 'Constant Lookup',
+  system: 'Constant Lookup',
+  fulltext: 'Fulltext Index Search',
+};
+
 interface QueryResult {
   data: mysql.RowDataPacket[] | mysql.RowDataPacket[][] | mysql.ResultSetHeader;
   fields: mysql.FieldPacket[] | mysql.FieldPacket[][];
@@ -74,6 +187,17 @@ export default class MysqlAdapter extends AbstractAdapter {
         },
       }),
     };
+
+    if (this.server.config.readOnly) {
+      this.conn.pool.on('connection', (connection) => {
+        // queued before any other query executed by the new connection
+        connection.query('SET SESSION TRANSACTION READ ONLY', (err) => {
+          if (err) {
+            logger().error('failed setting the session read-only %j', err);
+          }
+        });
+      });
+    }
   }
 
   configDatabase(): Config {
@@ -158,14 +282,33 @@ export default class MysqlAdapter extends AbstractAdapter {
     });
   }
 
-  query(queryText: string): QueryReturn {
+  async openConnection(): Promise<AdapterConnection> {
+    const connection = await this.getConnection();
+
+    return {
+      query: (queryText, params, options) => this.query(queryText, params, options, connection),
+      executeQuery: (queryText, params, options) =>
+        this.executeQuery(queryText, params, options, connection),
+      release: () => {
+        connection.release();
+        return Promise.resolve();
+      },
+    };
+  }
+
+  query(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: mysql.PoolConnection,
+  ): QueryReturn {
     let pid: number | null = null;
     let canceling = false;
     const cancelable = createCancelablePromise();
 
     return {
       execute: () => {
-        return this.runWithConnection(async (connection) => {
+        const run = async (connection: mysql.PoolConnection) => {
           const pidResult = await this.driverExecuteQuery(
             {
               query: 'SELECT connection_id() AS pid',
@@ -178,14 +321,18 @@ export default class MysqlAdapter extends AbstractAdapter {
           try {
             const data = await Promise.race([
               cancelable.wait(),
-              this.executeQuery(queryText, connection),
+              this.executeQuery(queryText, params, options, connection),
             ]);
 
             pid = null;
 
             return <QueryRowResult[]>data;
           } catch (err) {
-            if (canceling && (err as { code: string }).code === mysqlErrors.CONNECTION_LOST) {
+            const { code } = err as { code: string };
+            if (
+              canceling &&
+              (code === mysqlErrors.QUERY_INTERRUPTED || code === mysqlErrors.CONNECTION_LOST)
+            ) {
               canceling = false;
               (err as { sqlectronError: string }).sqlectronError = 'CANCELED_BY_USER';
             }
@@ -194,7 +341,9 @@ export default class MysqlAdapter extends AbstractAdapter {
           } finally {
             cancelable.discard();
           }
-        });
+        };
+
+        return connection ? run(connection) : this.runWithConnection(run);
       },
 
       cancel: async () => {
@@ -204,8 +353,9 @@ export default class MysqlAdapter extends AbstractAdapter {
 
         canceling = true;
         try {
+          // only the running statement is killed, so a pinned connection remains usable
           await this.driverExecuteQuery({
-            query: `kill ${pid};`,
+            query: `KILL QUERY ${pid};`,
           });
           cancelable.cancel();
         } catch (err) {
@@ -216,11 +366,233 @@ export default class MysqlAdapter extends AbstractAdapter {
     };
   }
 
+  stream(queryText: string, options: QueryStreamOptions = {}): QueryStreamReturn {
+    const state: StreamState = { pid: null, canceling: false };
+    const batchSize = options.batchSize || DEFAULT_STREAM_BATCH_SIZE;
+
+    return {
+      [Symbol.asyncIterator]: () => this.streamRows(queryText, batchSize, state),
+
+      cancel: async () => {
+        if (!state.pid) {
+          throw new Error('Query not ready to be canceled');
+        }
+
+        state.canceling = true;
+        try {
+          await this.driverExecuteQuery({
+            query: `kill ${state.pid};`,
+          });
+        } catch (err) {
+          state.canceling = false;
+          throw err;
+        }
+      },
+    };
+  }
+
+  /**
+   * Rows are emitted one by one by the driver, so the connection is paused
+   * while the consumer is not able to keep up with the results.
+   */
+  async *streamRows(
+    queryText: string,
+    batchSize: number,
+    state: StreamState,
+  ): AsyncGenerator<QueryStreamBatch> {
+    const connection = await this.getConnection();
+    let completed = false;
+
+    try {
+      const pidResult = await this.driverExecuteQuery(
+        { query: 'SELECT connection_id() AS pid' },
+        connection,
+      );
+      state.pid = (<mysql.RowDataPacket[]>pidResult.data)[0].pid as number;
+
+      const queue = createBatchQueue({
+        batchSize,
+        pause: () => connection.pause(),
+        resume: () => connection.resume(),
+      });
+
+      connection
+        .query(queryText)
+        .on('fields', (fields: mysql.FieldPacket[]) => queue.setFields(parseFields(fields)))
+        .on('result', (row: mysql.RowDataPacket) => queue.push(row))
+        .on('error', (err: mysql.QueryError) => queue.fail(getRealError(connection, err)))
+        .on('end', () => queue.end());
+
+      yield* this.normalizeBatches(queue.batches());
+      completed = true;
+    } catch (err) {
+      if (state.canceling && (err as { code: string }).code === mysqlErrors.CONNECTION_LOST) {
+        (err as { sqlectronError: string }).sqlectronError = 'CANCELED_BY_USER';
+      }
+
+      throw err;
+    } finally {
+      state.pid = null;
+      state.canceling = false;
+
+      // A stream abandoned before its end still has rows pending to be read
+      // in the connection, so it cannot be given back to the pool
+      if (completed) {
+        connection.release();
+      } else {
+        connection.destroy();
+      }
+    }
+  }
+
+  /**
+   * MySQL only analyzes the plan in its text tree format (8.0.18+), while MariaDB
+   * has a JSON format for it. Analyzing the plan executes the query.
+   */
+  async explain(queryText: string, options: ExplainOptions = {}): Promise<ExplainPlanNode[]> {
+    const isMariaDB = this.version.name === 'MariaDB';
+    let query = 'EXPLAIN FORMAT=JSON';
+    if (options.analyze) {
+      query = isMariaDB ? 'ANALYZE FORMAT=JSON' : 'EXPLAIN ANALYZE';
+    }
+
+    const { data } = await this.driverExecuteQuery({ query: `${query} ${queryText}` });
+    const plan = Object.values((<mysql.RowDataPacket[]>data)[0])[0] as string;
+
+    if (options.analyze && !isMariaDB) {
+      return parsePlanTree(plan);
+    }
+
+    const json = JSON.parse(plan) as { [key: string]: PlanObject };
+    return Object.entries(json).map(([key, value]) => parsePlanObject(key, value));
+  }
+
   async executeQuery(
     queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
     connection?: mysql.PoolConnection,
   ): Promise<QueryRowResult[]> {
-    const { data, fields } = await this.driverExecuteQuery({ query: queryText }, connection);
+    // The warnings are kept by the connection, so it is pinned to read them after the query
+    if (!connection) {
+      return this.runWithConnection((connection) =>
+        this.executeQuery(queryText, params, options, connection),
+      );
+    }
+
+    return this.runWithStatementTimeout(queryText, options.timeout, connection, () => {
+      if (hasDelimiterDirective(queryText)) {
+        return this.executeDelimitedStatements(queryText, params, connection);
+      }
+
+      return this.executeStatements(queryText, params, connection);
+    });
+  }
+
+  /**
+   * The timeout is set on the connection while the query runs, and the previous
+   * timeout of the session restored afterwards. MySQL only limits the execution time
+   * of SELECT statements, so the other statements are killed once timed out when
+   * still running, while MariaDB limits every statement.
+   */
+  async runWithStatementTimeout<T>(
+    queryText: string,
+    timeout: number | undefined,
+    connection: mysql.PoolConnection,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    if (!timeout) {
+      return run();
+    }
+
+    const isMariaDB = this.version.name === 'MariaDB';
+    const variable = isMariaDB ? 'max_statement_time' : 'max_execution_time';
+    // MariaDB takes the timeout in seconds
+    const value = isMariaDB ? timeout / 1000 : timeout;
+    const commands = identifyCommands(queryText);
+    const isLimited =
+      isMariaDB || (commands.length > 0 && commands.every(({ type }) => type === 'SELECT'));
+
+    const { data } = await this.driverExecuteQuery(
+      { query: `SELECT @@SESSION.${variable} AS previous` },
+      connection,
+    );
+    const { previous } = (<mysql.RowDataPacket[]>data)[0];
+    await this.driverExecuteQuery({ query: `SET SESSION ${variable} = ${value}` }, connection);
+
+    let running = true;
+    const kill = async () => {
+      const { data } = await this.driverExecuteQuery({
+        query: `SELECT 1 FROM information_schema.PROCESSLIST WHERE ID = ${connection.threadId} AND COMMAND = 'Query'`,
+      });
+      if (running && (<mysql.RowDataPacket[]>data).length) {
+        await this.driverExecuteQuery({ query: `KILL QUERY ${connection.threadId}` });
+      }
+    };
+
+    try {
+      return await runWithTimeout(isLimited ? undefined : timeout, run, () => {
+        runWithoutSignal(kill).catch((err) =>
+          logger().error('failed killing the timed out query %j', err),
+        );
+      });
+    } catch (err) {
+      const { code, errno } = err as { code: string; errno: number };
+      if (code === mysqlErrors.QUERY_TIMEOUT || errno === MARIADB_STATEMENT_TIMEOUT_ERRNO) {
+        throw new QueryTimeoutError(timeout);
+      }
+      throw err;
+    } finally {
+      running = false;
+      try {
+        await runWithoutSignal(() =>
+          this.driverExecuteQuery(
+            { query: `SET SESSION ${variable} = ${Number(previous)}` },
+            connection,
+          ),
+        );
+      } catch (err) {
+        logger().error('failed restoring the statement timeout %j', err);
+      }
+    }
+  }
+
+  /**
+   * The DELIMITER directives are processed by the MySQL client, so the statements
+   * are executed one by one once their delimiters have been removed.
+   */
+  async executeDelimitedStatements(
+    queryText: string,
+    params: QueryParams | undefined,
+    connection: mysql.PoolConnection,
+  ): Promise<QueryRowResult[]> {
+    if (params) {
+      throw new Error('Parameters are not supported by scripts with DELIMITER directives.');
+    }
+
+    const results: QueryRowResult[] = [];
+    for (const [statementIndex, statement] of splitDelimiterStatements(queryText).entries()) {
+      const statementResults = await this.executeStatements(statement, undefined, connection);
+      statementResults.forEach((result) => {
+        results.push({
+          ...result,
+          messages: result.messages.map((message) => ({ ...message, statementIndex })),
+        });
+      });
+    }
+
+    return results;
+  }
+
+  async executeStatements(
+    queryText: string,
+    params: QueryParams | undefined,
+    connection: mysql.PoolConnection,
+  ): Promise<QueryRowResult[]> {
+    const { data, fields } = await this.driverExecuteQuery(
+      { query: queryText, params, internal: false },
+      connection,
+    );
 
     if (!data || (Array.isArray(data) && data.length === 0 && fields.length === 0)) {
       return [];
@@ -229,18 +601,59 @@ export default class MysqlAdapter extends AbstractAdapter {
     const commands = identifyCommands(queryText).map((item) => item.type);
 
     if (!isMultipleQuery(fields)) {
-      return [
-        parseRowQueryResult(<mysql.RowDataPacket[]>data, <mysql.FieldPacket[]>fields, commands[0]),
-      ];
+      const messages = await this.getWarnings(connection, 0, data);
+      return this.normalizeResults([
+        parseRowQueryResult(
+          <mysql.RowDataPacket[]>data,
+          <mysql.FieldPacket[]>fields,
+          commands[0],
+          messages,
+        ),
+      ]);
     }
 
-    return (<mysql.RowDataPacket[][]>data).map((_, idx) => {
-      return parseRowQueryResult(
-        (<mysql.RowDataPacket[][]>data)[idx],
-        (<mysql.FieldPacket[][]>fields)[idx],
-        commands[idx],
-      );
-    });
+    // The server only keeps the warnings of the last statement
+    const lastIndex = (<mysql.RowDataPacket[][]>data).length - 1;
+    const messages = await this.getWarnings(
+      connection,
+      lastIndex,
+      (<mysql.RowDataPacket[][]>data)[lastIndex],
+    );
+
+    return this.normalizeResults(
+      (<mysql.RowDataPacket[][]>data).map((_, idx) => {
+        return parseRowQueryResult(
+          (<mysql.RowDataPacket[][]>data)[idx],
+          (<mysql.FieldPacket[][]>fields)[idx],
+          commands[idx],
+          idx === lastIndex ? messages : [],
+        );
+      }),
+    );
+  }
+
+  /**
+   * Statements without rows report their count of warnings, which spares the
+   * SHOW WARNINGS round trip when there is none. The driver does not report it for
+   * the statements returning rows, so their warnings are always read.
+   */
+  async getWarnings(
+    connection: mysql.PoolConnection,
+    statementIndex: number,
+    result: unknown,
+  ): Promise<QueryMessage[]> {
+    if (!Array.isArray(result) && !(<mysql.ResultSetHeader>result).warningStatus) {
+      return [];
+    }
+
+    const { data } = await this.driverExecuteQuery({ query: 'SHOW WARNINGS' }, connection);
+
+    return (<mysql.RowDataPacket[]>data).map((row) => ({
+      severity: WARNING_LEVELS[row.Level as string] || 'warning',
+      text: row.Message as string,
+      code: row.Code as number,
+      statementIndex,
+    }));
   }
 
   async listTables(): Promise<ListTableResult[]> {
@@ -288,7 +701,19 @@ export default class MysqlAdapter extends AbstractAdapter {
 
   async listTableColumns(table: string): Promise<ListTableColumnsResult[]> {
     const sql = `
-      SELECT column_name AS 'column_name', data_type AS 'data_type'
+      SELECT
+        column_name AS 'column_name',
+        data_type AS 'data_type',
+        column_type AS 'column_type',
+        ordinal_position AS 'ordinal_position',
+        is_nullable AS 'is_nullable',
+        column_default AS 'column_default',
+        character_maximum_length AS 'character_maximum_length',
+        numeric_precision AS 'numeric_precision',
+        numeric_scale AS 'numeric_scale',
+        extra AS 'extra',
+        collation_name AS 'collation_name',
+        column_comment AS 'column_comment'
       FROM information_schema.columns
       WHERE table_schema = database()
       AND table_name = ?
@@ -299,10 +724,26 @@ export default class MysqlAdapter extends AbstractAdapter {
 
     const { data } = await this.driverExecuteQuery({ query: sql, params });
 
-    return (<mysql.RowDataPacket[]>data).map((row) => ({
-      columnName: row.column_name as string,
-      dataType: row.data_type as string,
-    }));
+    return (<mysql.RowDataPacket[]>data).map((row) => {
+      const extra = (row.extra as string) || '';
+      return {
+        columnName: row.column_name as string,
+        dataType: row.data_type as string,
+        fullDataType: row.column_type as string,
+        ordinalPosition: Number(row.ordinal_position),
+        nullable: row.is_nullable === 'YES',
+        defaultValue: row.column_default as string | null,
+        length: toOptionalNumber(row.character_maximum_length) ?? null,
+        precision: toOptionalNumber(row.numeric_precision) ?? null,
+        scale: toOptionalNumber(row.numeric_scale) ?? null,
+        isIdentity: false,
+        isAutoIncrement: /auto_increment/i.test(extra),
+        // MySQL flags them as VIRTUAL or STORED GENERATED, MariaDB as VIRTUAL or PERSISTENT
+        isGenerated: /GENERATED|VIRTUAL|PERSISTENT/i.test(extra),
+        collation: row.collation_name as string | null,
+        comment: (row.column_comment as string) || null,
+      };
+    });
   }
 
   async listTableTriggers(table: string): Promise<string[]> {
@@ -320,6 +761,36 @@ export default class MysqlAdapter extends AbstractAdapter {
     return (<mysql.RowDataPacket[]>data).map((row) => row.trigger_name as string);
   }
 
+  /**
+   * MySQL triggers fire on a single event, for each row, and can not be disabled.
+   */
+  async describeTableTriggers(table: string): Promise<TableTriggerResult[]> {
+    const sql = `
+      SELECT
+        trigger_name as 'trigger_name',
+        action_timing as 'action_timing',
+        event_manipulation as 'event_manipulation',
+        action_orientation as 'action_orientation'
+      FROM information_schema.triggers
+      WHERE event_object_schema = database()
+      AND event_object_table = ?
+      ORDER BY trigger_name
+    `;
+
+    const params = [table];
+
+    const { data } = await this.driverExecuteQuery({ query: sql, params });
+
+    return (<mysql.RowDataPacket[]>data).map((row) => ({
+      name: row.trigger_name as string,
+      timing: row.action_timing as TriggerTiming,
+      events: [row.event_manipulation as TriggerEvent],
+      level: row.action_orientation === 'STATEMENT' ? 'STATEMENT' : 'ROW',
+      enabled: true,
+      function: null,
+    }));
+  }
+
   async listTableIndexes(table: string): Promise<string[]> {
     const sql = 'SHOW INDEX FROM ?? FROM ??';
 
@@ -327,7 +798,31 @@ export default class MysqlAdapter extends AbstractAdapter {
 
     const { data } = await this.driverExecuteQuery({ query: sql, params });
 
-    return (<mysql.RowDataPacket[]>data).map((row) => row.Key_name as string);
+    // the indexes have a row per column
+    return [...new Set((<mysql.RowDataPacket[]>data).map((row) => row.Key_name as string))];
+  }
+
+  async describeTableIndexes(table: string): Promise<TableIndexResult[]> {
+    const sql = 'SHOW INDEX FROM ?? FROM ??';
+
+    const params = [table, this.database.database];
+
+    const { data } = await this.driverExecuteQuery({ query: sql, params });
+
+    // the rows of each index are ordered by their position in the index
+    return groupRows(<mysql.RowDataPacket[]>data, (row) => row.Key_name as string).map((rows) => ({
+      name: rows[0].Key_name as string,
+      columns: rows.map((row) => ({
+        // the columns of the functional key parts are null, described by the expression
+        name: (row.Column_name || row.Expression || null) as string | null,
+        order: row.Collation === 'D' ? 'DESC' : 'ASC',
+      })),
+      unique: Number(rows[0].Non_unique) === 0,
+      primary: rows[0].Key_name === 'PRIMARY',
+      method: (rows[0].Index_type as string).toLowerCase(),
+      predicate: null,
+      includedColumns: [],
+    }));
   }
 
   async listDatabases(filter?: DatabaseFilter): Promise<string[]> {
@@ -383,6 +878,107 @@ export default class MysqlAdapter extends AbstractAdapter {
     }));
   }
 
+  /**
+   * MySQL does not support deferred constraints.
+   */
+  async listForeignKeys(table: string): Promise<ForeignKeyResult[]> {
+    const sql = `
+      SELECT
+        kcu.constraint_name as 'constraint_name',
+        kcu.column_name as 'column_name',
+        kcu.referenced_table_schema as 'referenced_table_schema',
+        kcu.referenced_table_name as 'referenced_table_name',
+        kcu.referenced_column_name as 'referenced_column_name',
+        rc.update_rule as 'update_rule',
+        rc.delete_rule as 'delete_rule'
+      FROM information_schema.key_column_usage kcu
+      JOIN information_schema.referential_constraints rc
+        ON rc.constraint_schema = kcu.constraint_schema
+        AND rc.constraint_name = kcu.constraint_name
+        AND rc.table_name = kcu.table_name
+      WHERE kcu.table_schema = database()
+      AND kcu.table_name = ?
+      AND kcu.referenced_table_name IS NOT NULL
+      ORDER BY kcu.constraint_name, kcu.ordinal_position
+    `;
+
+    const params = [table];
+
+    const { data } = await this.driverExecuteQuery({ query: sql, params });
+
+    return groupRows(<mysql.RowDataPacket[]>data, (row) => row.constraint_name as string).map(
+      (rows) => ({
+        name: rows[0].constraint_name as string,
+        columns: rows.map((row) => row.column_name as string),
+        referencedSchema: rows[0].referenced_table_schema as string,
+        referencedTable: rows[0].referenced_table_name as string,
+        referencedColumns: rows.map((row) => row.referenced_column_name as string),
+        onDelete: rows[0].delete_rule as ForeignKeyAction,
+        onUpdate: rows[0].update_rule as ForeignKeyAction,
+        deferrable: false,
+        initiallyDeferred: false,
+      }),
+    );
+  }
+
+  /**
+   * The CHECK constraints are available since MySQL 8.0.16 and MariaDB 10.2.
+   */
+  async listTableConstraints(table: string): Promise<TableConstraintResult[]> {
+    const sql = `
+      SELECT
+        tc.constraint_name as 'constraint_name',
+        tc.constraint_type as 'constraint_type',
+        kcu.column_name as 'column_name'
+      FROM information_schema.table_constraints tc
+      LEFT JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_schema = tc.constraint_schema
+        AND kcu.constraint_name = tc.constraint_name
+        AND kcu.table_name = tc.table_name
+      WHERE tc.table_schema = database()
+      AND tc.table_name = ?
+      ORDER BY tc.constraint_name, kcu.ordinal_position
+    `;
+
+    const params = [table];
+
+    const { data } = await this.driverExecuteQuery({ query: sql, params });
+
+    const constraints = groupRows(
+      <mysql.RowDataPacket[]>data,
+      (row) => row.constraint_name as string,
+    ).map((rows) => ({
+      name: rows[0].constraint_name as string,
+      type: rows[0].constraint_type as TableConstraintType,
+      columns: rows.filter((row) => row.column_name).map((row) => row.column_name as string),
+      expression: null as string | null,
+    }));
+
+    const checks = constraints.filter((constraint) => constraint.type === 'CHECK');
+    if (checks.length) {
+      // only MariaDB scopes the check constraints names to their table
+      const isMariaDB = this.version.name === 'MariaDB';
+      const { data: clauses } = await this.driverExecuteQuery({
+        query: `
+          SELECT constraint_name as 'constraint_name', check_clause as 'check_clause'
+          FROM information_schema.check_constraints
+          WHERE constraint_schema = database()
+          ${isMariaDB ? 'AND table_name = ?' : ''}
+        `,
+        params: isMariaDB ? [table] : [],
+      });
+
+      (<mysql.RowDataPacket[]>clauses).forEach((row) => {
+        const check = checks.find((constraint) => constraint.name === row.constraint_name);
+        if (check) {
+          check.expression = row.check_clause as string;
+        }
+      });
+    }
+
+    return constraints;
+  }
+
   async getTableCreateScript(table: string): Promise<string[]> {
     const sql = `SHOW CREATE TABLE ${table}`;
 
@@ -413,6 +1009,16 @@ export default class MysqlAdapter extends AbstractAdapter {
     );
   }
 
+  async getTriggerCreateScript(trigger: string): Promise<string[]> {
+    const sql = `SHOW CREATE TRIGGER ${this.wrapIdentifier(trigger)}`;
+
+    const { data } = await this.driverExecuteQuery({ query: sql });
+
+    return (<mysql.RowDataPacket[]>data).map((row) =>
+      appendSemiColon(row['SQL Original Statement'] as string),
+    );
+  }
+
   async getSchema(connection?: mysql.PoolConnection): Promise<string> {
     const sql = "SELECT database() AS 'schema'";
 
@@ -451,29 +1057,102 @@ export default class MysqlAdapter extends AbstractAdapter {
     });
   }
 
-  async driverExecuteQuery(
+  /**
+   * The rows are inserted in batches of multi-row INSERT statements within a transaction,
+   * as LOAD DATA LOCAL requires the servers to allow loading local files.
+   */
+  async bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    const target = this.getBulkInsertTarget(table, columns, options.schema);
+
+    return this.runWithConnection(async (connection) => {
+      await this.driverExecuteQuery({ query: 'START TRANSACTION' }, connection);
+
+      try {
+        let rowsInserted = 0;
+        for (let offset = 0; offset < rows.length; offset += BULK_INSERT_BATCH_SIZE) {
+          // the driver expands the nested arrays into the rows of the VALUES clause
+          const { data } = await this.driverExecuteQuery(
+            {
+              query: `INSERT INTO ${target} VALUES ?`,
+              params: [rows.slice(offset, offset + BULK_INSERT_BATCH_SIZE)],
+            },
+            connection,
+          );
+          rowsInserted += (<mysql.ResultSetHeader>data).affectedRows;
+        }
+
+        await this.driverExecuteQuery({ query: 'COMMIT' }, connection);
+        return { rowsInserted };
+      } catch (err) {
+        await runWithoutSignal(() => this.driverExecuteQuery({ query: 'ROLLBACK' }, connection));
+        throw err;
+      }
+    });
+  }
+
+  driverExecuteQuery(
     queryArgs: QueryArgs,
     connection?: mysql.PoolConnection,
   ): Promise<QueryResult> {
-    const runQuery = (connection: mysql.PoolConnection): Promise<QueryResult> => {
-      return new Promise((resolve, reject) => {
-        connection.query(queryArgs.query, queryArgs.params, (err, data, fields) => {
-          if (err && err.code === mysqlErrors.EMPTY_QUERY) {
-            return resolve({ data: [], fields: [] });
-          }
-          if (err) {
-            return reject(getRealError(connection, err));
-          }
-
-          resolve({
-            data: data as mysql.RowDataPacket[] | mysql.RowDataPacket[][] | mysql.ResultSetHeader,
-            fields,
+    const signal = currentSignal();
+
+    return this.runMiddleware(queryArgs, (queryArgs) => {
+      const runQuery = (connection: mysql.PoolConnection): Promise<QueryResult> => {
+        const execute = (): Promise<QueryResult> =>
+          new Promise((resolve, reject) => {
+            const options = {
+              sql: queryArgs.query,
+              // named parameters are bound with the ":name" placeholder
+              namedPlaceholders: !!queryArgs.params && !Array.isArray(queryArgs.params),
+            };
+
+            connection.query(options, queryArgs.params, (err, data, fields) => {
+              if (err && err.code === mysqlErrors.EMPTY_QUERY) {
+                return resolve({ data: [], fields: [] });
+              }
+              if (err) {
+                return reject(getRealError(connection, err));
+              }
+
+              resolve({
+                data: data as
+                  | mysql.RowDataPacket[]
+                  | mysql.RowDataPacket[][]
+                  | mysql.ResultSetHeader,
+                fields,
+              });
+            });
           });
+
+        return abortable(signal, execute, () =>
+          this.driverExecuteQuery({ query: `KILL QUERY ${connection.threadId}` }),
+        );
+      };
+
+      return connection ? runQuery(connection) : this.runWithConnection(runQuery);
+    });
+  }
+
+  getConnection(): Promise<mysql.PoolConnection> {
+    return new Promise((resolve, reject) => {
+      this.conn.pool.getConnection((err, connection) => {
+        if (err) {
+          return reject(err);
+        }
+
+        connection.on('error', (error: string) => {
+          // it will be handled later in the next query execution
+          logger().error('Connection fatal error %j', error);
         });
-      });
-    };
 
-    return connection ? runQuery(connection) : this.runWithConnection(runQuery);
+        resolve(connection);
+      });
+    });
   }
 
   runWithConnection<T = QueryResult>(
@@ -510,6 +1189,24 @@ export default class MysqlAdapter extends AbstractAdapter {
     });
   }
 
+  getBeginTransactionQuery(options: TransactionOptions = {}): string {
+    if (options.isolationLevel) {
+      return `SET TRANSACTION ISOLATION LEVEL ${options.isolationLevel}; START TRANSACTION;`;
+    }
+    return 'START TRANSACTION';
+  }
+
+  splitStatements(queryText: string): string[] {
+    if (hasDelimiterDirective(queryText)) {
+      return splitDelimiterStatements(queryText);
+    }
+    return splitStatements(queryText, 'mysql');
+  }
+
+  createStatementSplitter(): StatementSplitter {
+    return new StatementSplitter('mysql');
+  }
+
   wrapIdentifier(value: string): string {
     return wrapIdentifier(value);
   }
@@ -542,6 +1239,7 @@ function parseRowQueryResult(
   data: mysql.RowDataPacket[] | mysql.ResultSetHeader,
   fields: mysql.FieldPacket[],
   command: string,
+  messages: QueryMessage[],
 ): QueryRowResult {
   // Fallback in case the identifier could not reconize the command
   const isSelect = Array.isArray(data);
@@ -550,10 +1248,154 @@ function parseRowQueryResult(
   return {
     command: command || (isSelect ? 'SELECT' : 'UNKNOWN'),
     rows: dataArray,
-    fields: fields || [],
+    fields: parseFields(fields || []),
     rowCount: isSelect ? dataArray.length : undefined,
     affectedRows: dataHeader.affectedRows,
+    messages,
+  };
+}
+
+function parseFields(fields: mysql.FieldPacket[]): ResultField[] {
+  return fields.map((field) => {
+    const flags = typeof field.flags === 'number' ? field.flags : 0;
+    const binary = field.characterSet === BINARY_CHARSET;
+
+    let dataType = FIELD_TYPES[<number>(field.columnType ?? field.type)] || 'UNKNOWN';
+    if (binary && ['CHAR', 'VARCHAR'].includes(dataType)) {
+      dataType = dataType === 'CHAR' ? 'BINARY' : 'VARBINARY';
+    } else if (!binary && dataType.endsWith('BLOB')) {
+      dataType = dataType.replace('BLOB', 'TEXT');
+    }
+
+    const category = getTypeCategory(dataType);
+    // 31 is used by the server for numbers without a fixed scale
+    const hasScale = category === 'number' && field.decimals < 31;
+
+    return {
+      name: field.name,
+      dataType,
+      category,
+      nullable: !(flags & FIELD_FLAGS.NOT_NULL),
+      table: field.orgTable || undefined,
+      column: field.orgName || undefined,
+      precision:
+        dataType === 'DECIMAL' && field.columnLength
+          ? field.columnLength - (field.decimals ? 1 : 0) - (flags & FIELD_FLAGS.UNSIGNED ? 0 : 1)
+          : undefined,
+      scale: hasScale ? field.decimals : undefined,
+    };
+  });
+}
+
+/**
+ * Converts a node of the JSON plan, where the key names the kind of operation
+ * (e.g. query_block, nested_loop, table, ordering_operation).
+ */
+function parsePlanObject(key: string, value: PlanObject): ExplainPlanNode {
+  const costInfo = (value.cost_info || {}) as { [key: string]: string };
+  const cost = costInfo.prefix_cost || costInfo.query_cost || value.cost;
+
+  const node: ExplainPlanNode = {
+    operation: humanizePlanKey(key),
+    relation: key === 'table' ? (value.table_name as string) : undefined,
+    estimatedRows: toOptionalNumber(value.rows_produced_per_join ?? value.rows),
+    actualRows: toOptionalNumber(value.r_rows),
+    cost: toOptionalNumber(cost),
+    children: [],
   };
+
+  if (key === 'table') {
+    const accessType = value.access_type as string;
+    node.operation = PLAN_ACCESS_TYPES[accessType] || accessType || node.operation;
+  }
+
+  Object.entries(value).forEach(([childKey, child]) => {
+    if (PLAN_DETAIL_KEYS.includes(childKey) || !child || typeof child !== 'object') {
+      return;
+    }
+
+    if (!Array.isArray(child)) {
+      node.children.push(parsePlanObject(childKey, child as PlanObject));
+      return;
+    }
+
+    // e.g. nested_loop: [{ table: {...} }, { table: {...} }]
+    const items = child.filter((item) => item && typeof item === 'object') as PlanObject[];
+    if (items.length) {
+      node.children.push({
+        operation: humanizePlanKey(childKey),
+        children: items.reduce<ExplainPlanNode[]>(
+          (nodes, item) =>
+            nodes.concat(
+              Object.entries(item)
+                .filter(([, nested]) => nested && typeof nested === 'object')
+                .map(([nestedKey, nested]) => parsePlanObject(nestedKey, nested as PlanObject)),
+            ),
+          [],
+        ),
+      });
+    }
+  });
+
+  return node;
+}
+
+/**
+ * Converts the EXPLAIN ANALYZE text tree, where each line is an operation indented
+ * by 4 spaces per level:
+ * -> Filter: (roles.id = 1)  (cost=0.55 rows=1) (actual time=0.03..0.04 rows=1 loops=1)
+ *     -> Table scan on roles  (cost=0.55 rows=3) (actual time=0.02..0.03 rows=3 loops=1)
+ */
+function parsePlanTree(plan: string): ExplainPlanNode[] {
+  const roots: ExplainPlanNode[] = [];
+  const parents: ExplainPlanNode[] = [];
+
+  plan.split('\n').forEach((line) => {
+    const matched = /^(\s*)-> (.*?)(?: {2}\((.*))?$/.exec(line);
+    if (!matched) {
+      return;
+    }
+
+    const [, indentation, operation, stats = ''] = matched;
+    const depth = Math.floor(indentation.length / 4);
+    const estimated = /\(?cost=(?:[\d.]+\.\.)?([\d.e+]+) rows=([\d.e+]+)\)/.exec(stats);
+    const actual = /actual time=[\d.]+\.\.[\d.]+ rows=([\d.e+]+)/.exec(stats);
+    const relation = /\bon `?([^\s`]+)`?/.exec(operation);
+
+    const node: ExplainPlanNode = {
+      operation,
+      relation: relation ? relation[1] : undefined,
+      estimatedRows: estimated ? Number(estimated[2]) : undefined,
+      actualRows: actual ? Number(actual[1]) : undefined,
+      cost: estimated ? Number(estimated[1]) : undefined,
+      children: [],
+    };
+
+    parents.length = depth;
+    const parent = parents[depth - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    parents.push(node);
+  });
+
+  return roots;
+}
+
+function humanizePlanKey(key: string): string {
+  return key
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return Number(value);
 }
 
 function isMultipleQuery(fields: mysql.FieldPacket[] | mysql.FieldPacket[][]) {
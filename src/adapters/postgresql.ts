@@ -1,29 +1,110 @@
 import pg, { QueryResultRow } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { EventEmitter } from 'events';
+import { pipeline, Readable } from 'stream';
+import { promisify } from 'util';
 import { identify } from 'sql-query-identifier';
 
+import { abortable, currentSignal, runWithoutSignal } from '../abort';
+import { CanceledByUserError, QueryTimeoutError } from '../errors';
 import { buildDatabaseFilter, buildSchemaFilter } from '../filters';
 import createLogger from '../logger';
-import { appendSemiColon, createCancelablePromise, versionCompare } from '../utils';
+import { StatementSplitter } from '../splitter';
+import {
+  appendSemiColon,
+  createCancelablePromise,
+  getTypeCategory,
+  groupRows,
+  versionCompare,
+  splitStatements,
+} from '../utils';
 import { Adapter, ADAPTERS } from './';
-import { AbstractAdapter, QueryArgs, QueryRowResult, TableKeysResult } from './abstract_adapter';
+import {
+  AbstractAdapter,
+  BULK_INSERT_BATCH_SIZE,
+  DEFAULT_STREAM_BATCH_SIZE,
+  QueryArgs,
+  QueryParams,
+  QueryRowResult,
+  TableKeysResult,
+} from './abstract_adapter';
 
 import type { Database } from '../database';
 import type { DatabaseFilter, SchemaFilter } from '../filters';
 import type { Server } from '../server';
 import type {
+  AdapterConnection,
+  AdapterQueryOptions,
+  BulkInsertOptions,
+  BulkInsertResult,
+  ExplainOptions,
+  ExplainPlanNode,
+  ForeignKeyAction,
+  ForeignKeyResult,
   QueryReturn,
+  QueryStreamBatch,
+  QueryStreamOptions,
+  QueryStreamReturn,
   ListTableResult,
+  QueryMessage,
+  QueryMessageSeverity,
+  ResultField,
   ListViewResult,
   ListRoutineResult,
   ListTableColumnsResult,
+  TableConstraintResult,
+  TableConstraintType,
+  TableIndexResult,
+  TableTriggerResult,
+  TriggerEvent,
+  TriggerTiming,
 } from './abstract_adapter';
 
 const logger = createLogger('db:clients:postgresql');
 
+const pipelineAsync = promisify(pipeline);
+
 const pgErrors = {
   CANCELED: '57014',
 };
 
+// codes of pg_constraint confupdtype and confdeltype
+const FOREIGN_KEY_ACTIONS: { [code: string]: ForeignKeyAction } = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT',
+};
+
+// codes of pg_constraint contype, the constraint triggers excepted
+const CONSTRAINT_TYPES: { [code: string]: TableConstraintType } = {
+  p: 'PRIMARY KEY',
+  f: 'FOREIGN KEY',
+  u: 'UNIQUE',
+  c: 'CHECK',
+  x: 'EXCLUDE',
+};
+
+interface StreamState {
+  pid: number | null;
+  canceling: boolean;
+}
+
+const BUILTIN_TYPE_NAMES = Object.entries(pg.types.builtins).reduce<{ [oid: number]: string }>(
+  (names, [name, oid]) => ({ ...names, [oid]: name.toLowerCase() }),
+  {},
+);
+
+interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  'Plan Rows'?: number;
+  'Actual Rows'?: number;
+  'Total Cost'?: number;
+  Plans?: PlanNode[];
+}
+
 interface AdapterConfig {
   host?: string;
   port?: number;
@@ -31,6 +112,7 @@ interface AdapterConfig {
   password?: string;
   database: string;
   max: 5;
+  types: pg.CustomTypesConfig;
   ssl?: {
     key?: string;
     ca?: string;
@@ -39,20 +121,41 @@ interface AdapterConfig {
   };
 }
 
+const TEXT_ARRAY_TYPE = 1009;
+const DATE_TYPES = [
+  1082, // date
+  1114, // timestamp without timezone
+  1184, // timestamp
+];
+const DATE_ARRAY_TYPES = [1182, 1115, 1185];
+
 /**
  * Do not convert DATE types to JS date.
  * It gnores of applying a wrong timezone to the date.
- * TODO: do not convert as well these same types with array (types 1115, 1182, 1185)
+ * The parsers are given to each pool, so the pg types used by other
+ * libraries in the same process are not affected.
  */
-pg.types.setTypeParser(1082, 'text', (val) => val); // date
-pg.types.setTypeParser(1114, 'text', (val) => val); // timestamp without timezone
-pg.types.setTypeParser(1184, 'text', (val) => val); // timestamp
+const types: pg.CustomTypesConfig = {
+  getTypeParser: ((oid: number, format: 'text' | 'binary' = 'text') => {
+    if (DATE_TYPES.includes(oid)) {
+      return (val: string) => val;
+    }
+    const parserOid = DATE_ARRAY_TYPES.includes(oid) ? TEXT_ARRAY_TYPE : oid;
+    return pg.types.getTypeParser(parserOid, format) as (val: string) => unknown;
+  }) as pg.CustomTypesConfig['getTypeParser'],
+};
 
 export default class PostgresqlAdapter extends AbstractAdapter {
   conn: {
     pool: pg.Pool;
   };
   defaultSchema = 'public';
+  // type names by oid, extended with the custom types found in the query results
+  typeNames: { [oid: number]: string } = { ...BUILTIN_TYPE_NAMES };
+  // columns of the tables found in the query results by table oid, until a table is altered
+  tableColumns: {
+    [oid: number]: { [column: number]: { table: string; column: string; notNull: boolean } };
+  } = {};
 
   constructor(server: Server, database: Database) {
     super(server, database);
@@ -63,6 +166,15 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     this.conn = {
       pool: new pg.Pool(dbConfig),
     };
+
+    if (this.server.config.readOnly) {
+      this.conn.pool.on('connect', (client) => {
+        // queued before any other query executed by the new client
+        client
+          .query('SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY')
+          .catch((err) => logger().error('failed setting the session read-only %j', err));
+      });
+    }
   }
 
   configDatabase(): AdapterConfig {
@@ -75,6 +187,7 @@ export default class PostgresqlAdapter extends AbstractAdapter {
         this.database.database ||
         <string>(<Adapter>ADAPTERS.find((adapter) => adapter.key === 'postgresql')).defaultDatabase,
       max: 5, // max idle connections per time (30 secs)
+      types,
     };
 
     if (this.server.sshTunnel) {
@@ -203,11 +316,29 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     schema: string = this.defaultSchema,
   ): Promise<ListTableColumnsResult[]> {
     const sql = `
-      SELECT column_name as "columnName", data_type as "dataType"
-      FROM information_schema.columns
-      WHERE table_schema = $1
-      AND table_name = $2
-      ORDER BY ordinal_position
+      SELECT
+        c.column_name as "columnName",
+        c.data_type as "dataType",
+        format_type(a.atttypid, a.atttypmod) as "fullDataType",
+        c.ordinal_position as "ordinalPosition",
+        c.is_nullable = 'YES' as "nullable",
+        c.column_default as "defaultValue",
+        c.character_maximum_length as "length",
+        c.numeric_precision as "precision",
+        c.numeric_scale as "scale",
+        c.is_identity = 'YES' as "isIdentity",
+        c.is_identity = 'YES' OR COALESCE(c.column_default LIKE 'nextval(%', false)
+          as "isAutoIncrement",
+        c.is_generated = 'ALWAYS' as "isGenerated",
+        c.collation_name as "collation",
+        col_description(a.attrelid, a.attnum) as "comment"
+      FROM information_schema.columns c
+      JOIN pg_catalog.pg_namespace n ON n.nspname = c.table_schema
+      JOIN pg_catalog.pg_class t ON t.relnamespace = n.oid AND t.relname = c.table_name
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = t.oid AND a.attname = c.column_name
+      WHERE c.table_schema = $1
+      AND c.table_name = $2
+      ORDER BY c.ordinal_position
     `;
 
     const params = [schema, table];
@@ -238,6 +369,72 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     return data.rows.map((row) => row.trigger_name);
   }
 
+  async describeTableTriggers(
+    table: string,
+    schema: string = this.defaultSchema,
+  ): Promise<TableTriggerResult[]> {
+    // Redshift does not have triggers
+    if (this.server.config.adapter === 'redshift') {
+      return [];
+    }
+
+    // tgtype is a bitmask of the level, timing and events of the trigger
+    const sql = `
+      SELECT
+        tg.tgname AS trigger_name,
+        tg.tgtype & 1 = 1 AS is_row,
+        CASE
+          WHEN tg.tgtype & 2 = 2 THEN 'BEFORE'
+          WHEN tg.tgtype & 64 = 64 THEN 'INSTEAD OF'
+          ELSE 'AFTER'
+        END AS timing,
+        tg.tgtype & 4 = 4 AS on_insert,
+        tg.tgtype & 8 = 8 AS on_delete,
+        tg.tgtype & 16 = 16 AS on_update,
+        tg.tgtype & 32 = 32 AS on_truncate,
+        tg.tgenabled <> 'D' AS is_enabled,
+        tg.tgfoid::regproc::text AS function_name
+      FROM pg_trigger tg
+      JOIN pg_class t ON t.oid = tg.tgrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE NOT tg.tgisinternal
+      AND n.nspname = $1
+      AND t.relname = $2
+      ORDER BY tg.tgname
+    `;
+
+    const params = [schema, table];
+
+    const data = await this.driverExecuteSingleQuery<{
+      trigger_name: string;
+      is_row: boolean;
+      timing: TriggerTiming;
+      on_insert: boolean;
+      on_delete: boolean;
+      on_update: boolean;
+      on_truncate: boolean;
+      is_enabled: boolean;
+      function_name: string;
+    }>({ query: sql, params });
+
+    return data.rows.map((row) => {
+      const events: TriggerEvent[] = [];
+      if (row.on_insert) events.push('INSERT');
+      if (row.on_update) events.push('UPDATE');
+      if (row.on_delete) events.push('DELETE');
+      if (row.on_truncate) events.push('TRUNCATE');
+
+      return {
+        name: row.trigger_name,
+        timing: row.timing,
+        events,
+        level: row.is_row ? 'ROW' : 'STATEMENT',
+        enabled: row.is_enabled,
+        function: row.function_name,
+      };
+    });
+  }
+
   async listTableIndexes(table: string, schema: string = this.defaultSchema): Promise<string[]> {
     const sql = `
       SELECT indexname as index_name
@@ -256,6 +453,64 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     return data.rows.map((row) => row.index_name);
   }
 
+  async describeTableIndexes(
+    table: string,
+    schema: string = this.defaultSchema,
+  ): Promise<TableIndexResult[]> {
+    // Redshift does not have indexes
+    if (this.server.config.adapter === 'redshift') {
+      return [];
+    }
+
+    // the included columns were added in PostgreSQL 11, after the key columns
+    const keyColumns = versionCompare(this.version.version, '11') >= 0 ? 'indnkeyatts' : 'indnatts';
+    const sql = `
+      SELECT
+        i.relname AS index_name,
+        ix.indisunique AS is_unique,
+        ix.indisprimary AS is_primary,
+        am.amname AS method,
+        pg_get_expr(ix.indpred, ix.indrelid) AS predicate,
+        pg_get_indexdef(ix.indexrelid, k.position + 1, true) AS column_name,
+        k.position >= ix.${keyColumns} AS is_included,
+        COALESCE(ix.indoption[k.position] & 1 = 1, false) AS is_descending
+      FROM pg_index ix
+      JOIN pg_class t ON t.oid = ix.indrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      JOIN pg_class i ON i.oid = ix.indexrelid
+      JOIN pg_am am ON am.oid = i.relam
+      CROSS JOIN LATERAL generate_series(0, ix.indnatts - 1) AS k(position)
+      WHERE n.nspname = $1
+      AND t.relname = $2
+      ORDER BY i.relname, k.position
+    `;
+
+    const params = [schema, table];
+
+    const data = await this.driverExecuteSingleQuery<{
+      index_name: string;
+      is_unique: boolean;
+      is_primary: boolean;
+      method: string;
+      predicate: string | null;
+      column_name: string;
+      is_included: boolean;
+      is_descending: boolean;
+    }>({ query: sql, params });
+
+    return groupRows(data.rows, (row) => row.index_name).map((rows) => ({
+      name: rows[0].index_name,
+      columns: rows
+        .filter((row) => !row.is_included)
+        .map((row) => ({ name: row.column_name, order: row.is_descending ? 'DESC' : 'ASC' })),
+      unique: rows[0].is_unique,
+      primary: rows[0].is_primary,
+      method: rows[0].method,
+      predicate: rows[0].predicate,
+      includedColumns: rows.filter((row) => row.is_included).map((row) => row.column_name),
+    }));
+  }
+
   async listSchemas(filter?: SchemaFilter): Promise<string[]> {
     const schemaFilter = buildSchemaFilter(filter);
     const sql = `
@@ -320,6 +575,106 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     return data.rows;
   }
 
+  async listForeignKeys(
+    table: string,
+    schema: string = this.defaultSchema,
+  ): Promise<ForeignKeyResult[]> {
+    const sql = `
+      SELECT
+        con.conname AS constraint_name,
+        a.attname AS column_name,
+        rn.nspname AS referenced_schema,
+        rt.relname AS referenced_table,
+        ra.attname AS referenced_column,
+        con.confupdtype AS update_action,
+        con.confdeltype AS delete_action,
+        con.condeferrable AS is_deferrable,
+        con.condeferred AS is_deferred
+      FROM pg_constraint con
+      JOIN pg_class t ON t.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      JOIN pg_class rt ON rt.oid = con.confrelid
+      JOIN pg_namespace rn ON rn.oid = rt.relnamespace
+      CROSS JOIN LATERAL generate_subscripts(con.conkey, 1) AS k(position)
+      JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = con.conkey[k.position]
+      JOIN pg_attribute ra ON ra.attrelid = con.confrelid AND ra.attnum = con.confkey[k.position]
+      WHERE con.contype = 'f'
+      AND n.nspname = $1
+      AND t.relname = $2
+      ORDER BY con.conname, k.position
+    `;
+
+    const params = [schema, table];
+
+    const data = await this.driverExecuteSingleQuery<{
+      constraint_name: string;
+      column_name: string;
+      referenced_schema: string;
+      referenced_table: string;
+      referenced_column: string;
+      update_action: string;
+      delete_action: string;
+      is_deferrable: boolean;
+      is_deferred: boolean;
+    }>({ query: sql, params });
+
+    return groupRows(data.rows, (row) => row.constraint_name).map((rows) => ({
+      name: rows[0].constraint_name,
+      columns: rows.map((row) => row.column_name),
+      referencedSchema: rows[0].referenced_schema,
+      referencedTable: rows[0].referenced_table,
+      referencedColumns: rows.map((row) => row.referenced_column),
+      onDelete: FOREIGN_KEY_ACTIONS[rows[0].delete_action],
+      onUpdate: FOREIGN_KEY_ACTIONS[rows[0].update_action],
+      deferrable: rows[0].is_deferrable,
+      initiallyDeferred: rows[0].is_deferred,
+    }));
+  }
+
+  async listTableConstraints(
+    table: string,
+    schema: string = this.defaultSchema,
+  ): Promise<TableConstraintResult[]> {
+    const sql = `
+      SELECT
+        con.conname AS constraint_name,
+        con.contype AS constraint_type,
+        ARRAY(
+          SELECT a.attname
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, position)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.position
+        )::text[] AS columns,
+        CASE con.contype
+          WHEN 'c' THEN pg_get_expr(con.conbin, con.conrelid, true)
+          WHEN 'x' THEN pg_get_constraintdef(con.oid, true)
+        END AS expression
+      FROM pg_constraint con
+      JOIN pg_class t ON t.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE con.contype IN ('p', 'f', 'u', 'c', 'x')
+      AND n.nspname = $1
+      AND t.relname = $2
+      ORDER BY con.conname
+    `;
+
+    const params = [schema, table];
+
+    const data = await this.driverExecuteSingleQuery<{
+      constraint_name: string;
+      constraint_type: string;
+      columns: string[];
+      expression: string | null;
+    }>({ query: sql, params });
+
+    return data.rows.map((row) => ({
+      name: row.constraint_name,
+      type: CONSTRAINT_TYPES[row.constraint_type],
+      columns: row.columns,
+      expression: row.expression,
+    }));
+  }
+
   getQuerySelectTop(table: string, limit: number, schema: string = this.defaultSchema): string {
     return `SELECT * FROM ${this.wrapIdentifier(schema)}.${this.wrapIdentifier(
       table,
@@ -510,6 +865,30 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     return data.rows.map(mapFunction);
   }
 
+  async getTriggerCreateScript(
+    trigger: string,
+    schema: string = this.defaultSchema,
+  ): Promise<string[]> {
+    // the trigger names are unique per table, so a name may match several triggers
+    const sql = `
+      SELECT pg_get_triggerdef(tg.oid, true) AS definition
+      FROM pg_trigger tg
+      JOIN pg_class t ON t.oid = tg.tgrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE tg.tgname = $1
+      AND n.nspname = $2
+    `;
+
+    const params = [trigger, schema];
+
+    const data = await this.driverExecuteSingleQuery<{ definition: string }>({
+      query: sql,
+      params,
+    });
+
+    return data.rows.map((row) => appendSemiColon(row.definition));
+  }
+
   async truncateAllTables(schema: string = this.defaultSchema): Promise<void> {
     await this.runWithConnection(async (connection) => {
       const sql = `
@@ -606,14 +985,64 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     });
   }
 
-  query(queryText: string): QueryReturn {
+  /**
+   * The rows are streamed with COPY FROM STDIN in the CSV format. Redshift does not
+   * support copying from the client, so it fallbacks to multi-row INSERT statements.
+   */
+  async bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    if (this.server.config.adapter === 'redshift') {
+      return super.bulkInsert(table, columns, rows, options);
+    }
+
+    const target = this.getBulkInsertTarget(table, columns, options.schema);
+    const signal = currentSignal();
+
+    return this.runWithConnection(async (connection) => {
+      const { processID } = (connection as unknown) as { processID: number };
+      const copy = connection.query(copyFrom(`COPY ${target} FROM STDIN WITH (FORMAT csv)`));
+
+      await abortable(
+        signal,
+        () => pipelineAsync(Readable.from(toCsvChunks(rows)), copy),
+        () => this.driverExecuteQuery({ query: `SELECT pg_cancel_backend(${processID})` }),
+      );
+
+      return { rowsInserted: copy.rowCount };
+    });
+  }
+
+  async openConnection(): Promise<AdapterConnection> {
+    const connection = await this.conn.pool.connect();
+
+    return {
+      query: (queryText, params, options) => this.query(queryText, params, options, connection),
+      executeQuery: (queryText, params, options) =>
+        this.executeQuery(queryText, params, options, connection),
+      release: () => {
+        connection.release();
+        return Promise.resolve();
+      },
+    };
+  }
+
+  query(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: pg.PoolClient,
+  ): QueryReturn {
     let pid: number | null = null;
     let canceling = false;
     const cancelable = createCancelablePromise();
 
     return {
       execute: () => {
-        return this.runWithConnection(async (connection: pg.PoolClient) => {
+        const run = async (connection: pg.PoolClient) => {
           const dataPid = await this.driverExecuteSingleQuery<{ pid: number }>(
             {
               query: 'SELECT pg_backend_pid() AS pid',
@@ -626,7 +1055,7 @@ export default class PostgresqlAdapter extends AbstractAdapter {
           try {
             const data = await Promise.race([
               cancelable.wait(),
-              this.executeQuery(queryText, connection),
+              this.executeQuery(queryText, params, options, connection),
             ]);
 
             pid = null;
@@ -641,7 +1070,9 @@ export default class PostgresqlAdapter extends AbstractAdapter {
           } finally {
             cancelable.discard();
           }
-        });
+        };
+
+        return connection ? run(connection) : this.runWithConnection(run);
       },
 
       cancel: async () => {
@@ -668,14 +1099,320 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     };
   }
 
-  async executeQuery(queryText: string, connection?: pg.PoolClient): Promise<QueryRowResult[]> {
+  stream(queryText: string, options: QueryStreamOptions = {}): QueryStreamReturn {
+    const state: StreamState = { pid: null, canceling: false };
+    const batchSize = options.batchSize || DEFAULT_STREAM_BATCH_SIZE;
+
+    return {
+      [Symbol.asyncIterator]: () => this.streamCursor(queryText, batchSize, state),
+
+      cancel: async () => {
+        if (!state.pid) {
+          throw new Error('Query not ready to be canceled');
+        }
+
+        state.canceling = true;
+        const data = await this.driverExecuteSingleQuery<{ pg_cancel_backend: boolean }>({
+          query: `SELECT pg_cancel_backend(${state.pid});`,
+        });
+
+        if (!data.rows[0].pg_cancel_backend) {
+          throw new Error(`Failed canceling query with pid ${state.pid}.`);
+        }
+      },
+    };
+  }
+
+  /**
+   * Reads the query results through a server side cursor, so only a single batch
+   * of rows is held in memory at a time. Cursors only live within a transaction,
+   * which is rolled back once the consumer stops reading the results.
+   */
+  async *streamCursor(
+    queryText: string,
+    batchSize: number,
+    state: StreamState,
+  ): AsyncGenerator<QueryStreamBatch> {
+    const connection = await this.conn.pool.connect();
+    let committed = false;
+
+    try {
+      const dataPid = await this.driverExecuteSingleQuery<{ pid: number }>(
+        { query: 'SELECT pg_backend_pid() AS pid' },
+        connection,
+      );
+      state.pid = dataPid.rows[0].pid;
+
+      await this.driverExecuteQuery({ query: 'BEGIN' }, connection);
+      await this.driverExecuteQuery(
+        {
+          query: `DECLARE sqlectron_stream NO SCROLL CURSOR FOR ${removeTrailingSemiColon(
+            queryText,
+          )}`,
+        },
+        connection,
+      );
+
+      let first = true;
+      let fields: ResultField[] | undefined;
+      while (true) {
+        const data = await this.driverExecuteSingleQuery(
+          { query: `FETCH FORWARD ${batchSize} FROM sqlectron_stream` },
+          connection,
+        );
+
+        if (state.canceling) {
+          throw new CanceledByUserError();
+        }
+
+        if (data.rows.length || first) {
+          fields = fields || (await this.parseFields(data.fields, connection));
+          yield { fields, rows: this.normalizeRows(data.rows, fields) };
+        }
+        first = false;
+
+        if (data.rows.length < batchSize) {
+          break;
+        }
+      }
+
+      await this.driverExecuteQuery({ query: 'COMMIT' }, connection);
+      committed = true;
+    } catch (err) {
+      if (state.canceling && (err as { code: string }).code === pgErrors.CANCELED) {
+        (err as { sqlectronError: string }).sqlectronError = 'CANCELED_BY_USER';
+      }
+
+      throw err;
+    } finally {
+      state.pid = null;
+      state.canceling = false;
+
+      if (!committed) {
+        try {
+          await this.driverExecuteQuery({ query: 'ROLLBACK' }, connection);
+        } catch (err) {
+          logger().error('failed closing stream cursor %j', err);
+        }
+      }
+
+      connection.release();
+    }
+  }
+
+  async executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: pg.PoolClient,
+  ): Promise<QueryRowResult[]> {
+    if (params && !Array.isArray(params)) {
+      throw new Error('PostgreSQL only supports positional parameters ($1, $2, ...).');
+    }
+
+    // Notices are sent on the connection, so it is pinned to know which query raised them
+    if (!connection) {
+      return this.runWithConnection((connection) =>
+        this.executeQuery(queryText, params, options, connection),
+      );
+    }
+
     const commands = identifyCommands(queryText).map((item) => item.type);
 
-    const data = await this.driverExecuteQuery({ query: queryText, multiple: true }, connection);
+    // Each statement ends with a "command complete" message, so the notices received
+    // in between belong to the statement being executed
+    const messages: QueryMessage[] = [];
+    let completedStatements = 0;
+    const onNotice = (notice: { severity?: string; message?: string; code?: string }) => {
+      messages.push({
+        severity: parseNoticeSeverity(notice.severity),
+        text: notice.message || '',
+        code: notice.code,
+        statementIndex: completedStatements,
+      });
+    };
+    const onCommandComplete = () => {
+      completedStatements += 1;
+    };
+
+    const { connection: protocol } = (connection as unknown) as { connection: EventEmitter };
+
+    // listens only to the query, after the statement timeout is set on the connection
+    const data = await this.runWithStatementTimeout(options.timeout, connection, async () => {
+      connection.on('notice', onNotice);
+      protocol.on('commandComplete', onCommandComplete);
+      try {
+        return await this.driverExecuteQuery(
+          { query: queryText, params, multiple: true, internal: false },
+          connection,
+        );
+      } finally {
+        connection.removeListener('notice', onNotice);
+        protocol.removeListener('commandComplete', onCommandComplete);
+      }
+    });
+
+    if (data.some((result) => result.command === 'ALTER' || result.command === 'DROP')) {
+      this.tableColumns = {};
+    }
+
+    const results = await Promise.all(
+      data
+        .map((result, statementIndex) => ({ result, statementIndex }))
+        .filter(({ result }) => result.command !== null)
+        .map(async ({ result, statementIndex }, idx) =>
+          parseRowQueryResult(
+            result,
+            commands[idx],
+            await this.parseFields(result.fields, connection),
+            messages.filter((message) => message.statementIndex === statementIndex),
+          ),
+        ),
+    );
+
+    return this.normalizeResults(results);
+  }
+
+  /**
+   * The statement timeout is set on the connection while the query runs, then
+   * restored, keeping the timeout the user may have set on a session.
+   */
+  async runWithStatementTimeout<T>(
+    timeout: number | undefined,
+    connection: pg.PoolClient,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    if (!timeout) {
+      return run();
+    }
+
+    const {
+      rows: [{ previous }],
+    } = await this.driverExecuteSingleQuery<{ previous: string }>(
+      {
+        query: `
+          SELECT
+            current_setting('statement_timeout') AS previous,
+            set_config('statement_timeout', $1, false)
+        `,
+        params: [String(timeout)],
+      },
+      connection,
+    );
+    try {
+      return await run();
+    } catch (err) {
+      const { code, message } = err as { code: string; message: string };
+      if (code === pgErrors.CANCELED && message.includes('statement timeout')) {
+        throw new QueryTimeoutError(timeout);
+      }
+      throw err;
+    } finally {
+      try {
+        await runWithoutSignal(() =>
+          this.driverExecuteQuery(
+            {
+              query: "SELECT set_config('statement_timeout', $1, false)",
+              params: [previous],
+            },
+            connection,
+          ),
+        );
+      } catch (err) {
+        // fails within a transaction aborted by the query, whose rollback restores it anyway
+        logger().error('failed restoring the statement timeout %j', err);
+      }
+    }
+  }
+
+  /**
+   * The driver only reports the oids of the fields type and table, which are
+   * resolved once through the catalog and cached by oid, the tables until one is
+   * altered or dropped. Failing to resolve them does not fail the query.
+   */
+  async parseFields(fields: pg.FieldDef[], connection?: pg.PoolClient): Promise<ResultField[]> {
+    try {
+      const unknownTypes = [...new Set(fields.map((field) => field.dataTypeID))].filter(
+        (oid) => !this.typeNames[oid],
+      );
+      if (unknownTypes.length) {
+        const types = await this.driverExecuteSingleQuery<{ oid: number; typname: string }>(
+          {
+            query: `SELECT oid, typname FROM pg_type WHERE oid IN (${unknownTypes.join(', ')})`,
+          },
+          connection,
+        );
+        types.rows.forEach(({ oid, typname }) => {
+          this.typeNames[oid] = typname;
+        });
+      }
+
+      const tables = [...new Set(fields.map((field) => field.tableID))].filter(
+        (oid) => !!oid && !this.tableColumns[oid],
+      );
+      if (tables.length) {
+        const attributes = await this.driverExecuteSingleQuery<{
+          table_id: number;
+          column_id: number;
+          table_name: string;
+          column_name: string;
+          not_null: boolean;
+        }>(
+          {
+            query: `
+              SELECT a.attrelid AS table_id, a.attnum AS column_id, c.relname AS table_name,
+                a.attname AS column_name, a.attnotnull AS not_null
+              FROM pg_attribute a
+              JOIN pg_class c ON c.oid = a.attrelid
+              WHERE a.attrelid IN (${tables.join(', ')}) AND a.attnum > 0
+            `,
+          },
+          connection,
+        );
+        tables.forEach((oid) => {
+          this.tableColumns[oid] = {};
+        });
+        attributes.rows.forEach((row) => {
+          this.tableColumns[row.table_id][row.column_id] = {
+            table: row.table_name,
+            column: row.column_name,
+            notNull: row.not_null,
+          };
+        });
+      }
+    } catch (err) {
+      logger().error('failed resolving the fields metadata %j', err);
+    }
+
+    return fields.map((field) => {
+      const dataType = this.typeNames[field.dataTypeID] || 'unknown';
+      const column = this.tableColumns[field.tableID]?.[field.columnID];
+      // numeric modifiers hold the precision and scale, offset by 4 bytes
+      const modifier = dataType === 'numeric' ? field.dataTypeModifier - 4 : -1;
+
+      return {
+        name: field.name,
+        dataType,
+        category: getTypeCategory(dataType),
+        nullable: column ? !column.notNull : undefined,
+        table: column?.table,
+        column: column?.column,
+        precision: modifier >= 0 ? (modifier >> 16) & 0xffff : undefined,
+        scale: modifier >= 0 ? modifier & 0xffff : undefined,
+      };
+    });
+  }
+
+  /**
+   * Analyzing the plan executes the query, including any side effect it has.
+   */
+  async explain(queryText: string, options: ExplainOptions = {}): Promise<ExplainPlanNode[]> {
+    const format = options.analyze ? 'FORMAT JSON, ANALYZE' : 'FORMAT JSON';
+    const data = await this.driverExecuteSingleQuery<{ 'QUERY PLAN': { Plan: PlanNode }[] }>({
+      query: `EXPLAIN (${format}) ${removeTrailingSemiColon(queryText)}`,
+    });
 
-    return data
-      .filter((result) => result.command !== null)
-      .map((result, idx) => parseRowQueryResult(result, commands[idx]));
+    return data.rows[0]['QUERY PLAN'].map(({ Plan }) => parsePlanNode(Plan));
   }
 
   async driverExecuteSingleQuery<T extends QueryResultRow>(
@@ -687,24 +1424,34 @@ export default class PostgresqlAdapter extends AbstractAdapter {
   }
 
   driverExecuteQuery(queryArgs: QueryArgs, connection?: pg.PoolClient): Promise<pg.QueryResult[]> {
-    const runQuery = (connection: pg.PoolClient): Promise<pg.QueryResult[]> => {
-      const args = {
-        text: queryArgs.query,
-        values: queryArgs.params,
-        multiResult: queryArgs.multiple,
+    const signal = currentSignal();
+
+    return this.runMiddleware(queryArgs, (queryArgs) => {
+      const runQuery = (connection: pg.PoolClient): Promise<pg.QueryResult[]> => {
+        const args = {
+          text: queryArgs.query,
+          values: queryArgs.params as unknown[] | undefined,
+          multiResult: queryArgs.multiple,
+        };
+        const { processID } = (connection as unknown) as { processID: number };
+
+        // node-postgres has support for Promise query
+        // but that always returns the "fields" property empty
+        return abortable(
+          signal,
+          () =>
+            new Promise((resolve, reject) => {
+              connection.query(args, (err, data: pg.QueryResult | pg.QueryResult[]) => {
+                if (err) return reject(err);
+                resolve(Array.isArray(data) ? data : [data]);
+              });
+            }),
+          () => this.driverExecuteQuery({ query: `SELECT pg_cancel_backend(${processID})` }),
+        );
       };
 
-      // node-postgres has support for Promise query
-      // but that always returns the "fields" property empty
-      return new Promise((resolve, reject) => {
-        connection.query(args, (err, data: pg.QueryResult | pg.QueryResult[]) => {
-          if (err) return reject(err);
-          resolve(Array.isArray(data) ? data : [data]);
-        });
-      });
-    };
-
-    return connection ? runQuery(connection) : this.runWithConnection(runQuery);
+      return connection ? runQuery(connection) : this.runWithConnection(runQuery);
+    });
   }
 
   async runWithConnection<T = pg.QueryResult[]>(
@@ -719,9 +1466,21 @@ export default class PostgresqlAdapter extends AbstractAdapter {
     }
   }
 
+  splitStatements(queryText: string): string[] {
+    return splitStatements(queryText, 'psql');
+  }
+
+  createStatementSplitter(): StatementSplitter {
+    return new StatementSplitter('psql');
+  }
+
   wrapIdentifier(value: string): string {
     return wrapIdentifier(value);
   }
+
+  getParameterPlaceholder(index: number): string {
+    return `$${index + 1}`;
+  }
 }
 
 export function wrapIdentifier(value: string): string {
@@ -731,15 +1490,48 @@ export function wrapIdentifier(value: string): string {
   return `"${value.replace(/"/g, '""')}"`;
 }
 
-function parseRowQueryResult(data: pg.QueryResult, command: string): QueryRowResult {
+function removeTrailingSemiColon(query: string): string {
+  return query.trim().replace(/;+$/, '');
+}
+
+function parsePlanNode(plan: PlanNode): ExplainPlanNode {
+  return {
+    operation: plan['Node Type'],
+    relation: plan['Relation Name'],
+    estimatedRows: plan['Plan Rows'],
+    actualRows: plan['Actual Rows'],
+    cost: plan['Total Cost'],
+    children: (plan.Plans || []).map(parsePlanNode),
+  };
+}
+
+function parseNoticeSeverity(severity?: string): QueryMessageSeverity {
+  switch (severity) {
+    case 'WARNING':
+      return 'warning';
+    case 'NOTICE':
+      return 'notice';
+    default:
+      // DEBUG, LOG and INFO
+      return 'info';
+  }
+}
+
+function parseRowQueryResult(
+  data: pg.QueryResult,
+  command: string,
+  fields: ResultField[],
+  messages: QueryMessage[],
+): QueryRowResult {
   const isSelect = data.command === 'SELECT';
   return {
     command: command || data.command,
     rows: data.rows,
-    fields: data.fields,
+    fields,
     rowCount: isSelect ? data.rowCount || data.rows.length : undefined,
     affectedRows:
       !isSelect && data.rowCount !== null && !isNaN(data.rowCount) ? data.rowCount : undefined,
+    messages,
   };
 }
 
@@ -750,3 +1542,62 @@ function identifyCommands(queryText: string) {
     return [];
   }
 }
+
+/**
+ * Joins the rows in CSV lines, where unquoted empty values are NULL and binary
+ * values use the bytea hex format.
+ */
+function* toCsvChunks(rows: unknown[][]): Generator<string> {
+  for (let offset = 0; offset < rows.length; offset += BULK_INSERT_BATCH_SIZE) {
+    yield rows
+      .slice(offset, offset + BULK_INSERT_BATCH_SIZE)
+      .map((row) => `${row.map(toCsvValue).join(',')}\n`)
+      .join('');
+  }
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (Buffer.isBuffer(value)) {
+    text = `\\x${value.toString('hex')}`;
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value)) {
+    text = toArrayLiteral(value);
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+// such as {"a","b"} or {{"1","2"},{"3",NULL}}, the elements being cast to the column type
+function toArrayLiteral(values: unknown[]): string {
+  const elements = values.map((value) => {
+    if (value === null || value === undefined) {
+      return 'NULL';
+    }
+    if (Array.isArray(value)) {
+      return toArrayLiteral(value);
+    }
+
+    let text: string;
+    if (Buffer.isBuffer(value)) {
+      text = `\\x${value.toString('hex')}`;
+    } else if (value instanceof Date) {
+      text = value.toISOString();
+    } else if (typeof value === 'object') {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value);
+    }
+    return `"${text.replace(/[\\"]/g, '\\$&')}"`;
+  });
+
+  return `{${elements.join(',')}}`;
+}
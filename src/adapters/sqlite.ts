@@ -1,20 +1,50 @@
 import sqlite3 from 'sqlite3';
 import { identify, Result } from 'sql-query-identifier';
 
+import { abortable, currentSignal, runWithoutSignal } from '../abort';
 import createLogger from '../logger';
-import { appendSemiColon } from '../utils';
+import { StatementSplitter } from '../splitter';
+import {
+  appendSemiColon,
+  createBatchQueue,
+  getTypeCategory,
+  groupRows,
+  guessFieldsFromRows,
+  runWithTimeout,
+  splitStatements,
+} from '../utils';
 import { Adapter, ADAPTERS } from './';
-import { AbstractAdapter } from './abstract_adapter';
+import { AbstractAdapter, DEFAULT_STREAM_BATCH_SIZE } from './abstract_adapter';
 
 import type { RunResult } from 'sqlite3';
 
 import type {
+  AdapterConnection,
+  AdapterQueryOptions,
+  BulkInsertOptions,
+  BulkInsertResult,
+  ExplainOptions,
+  ExplainPlanNode,
+  ForeignKeyAction,
+  ForeignKeyResult,
   QueryArgs,
+  QueryParams,
   QueryRowResult,
   QueryReturn,
+  QueryStreamBatch,
+  QueryStreamOptions,
+  QueryStreamReturn,
   ListTableColumnsResult,
   ListTableResult,
   ListViewResult,
+  ResultField,
+  TableConstraintResult,
+  TableIndexResult,
+  TableKeysResult,
+  TableTriggerResult,
+  TransactionOptions,
+  TriggerEvent,
+  TriggerTiming,
 } from './abstract_adapter';
 import type { Server } from '../server';
 import type { Database } from '../database';
@@ -26,6 +56,33 @@ const sqliteErrors = {
   CANCELED: 'SQLITE_INTERRUPT',
 };
 
+// a name, quoted or not
+const IDENTIFIER = '(?:"(?:[^"]|"")+"|`[^`]+`|\\[[^\\]]+\\]|\\w+)';
+
+interface StreamState {
+  connection: sqlite3.Database | null;
+}
+
+interface TableColumnInfo {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+  hidden: number;
+}
+
+interface ForeignKeyInfo {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: ForeignKeyAction;
+  on_delete: ForeignKeyAction;
+}
+
 interface QueryResult {
   data?: unknown[];
   lastID: number;
@@ -77,16 +134,35 @@ export default class SqliteAdapter extends AbstractAdapter {
     logger().debug('connected');
   }
 
-  query(queryText: string): QueryReturn {
+  async openConnection(): Promise<AdapterConnection> {
+    const connection = await this.openDatabase();
+
+    return {
+      query: (queryText, params, options) => this.query(queryText, params, options, connection),
+      executeQuery: (queryText, params, options) =>
+        this.executeQuery(queryText, params, options, connection),
+      release: () =>
+        new Promise((resolve, reject) => {
+          connection.close((err) => (err ? reject(err) : resolve()));
+        }),
+    };
+  }
+
+  query(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: sqlite3.Database,
+  ): QueryReturn {
     let queryConnection: sqlite3.Database | null = null;
 
     return {
       execute: () => {
-        return this.runWithConnection(async (connection: sqlite3.Database) => {
+        const run = async (connection: sqlite3.Database) => {
           try {
             queryConnection = connection;
 
-            const result = await this.executeQuery(queryText, connection);
+            const result = await this.executeQuery(queryText, params, options, connection);
 
             return result;
           } catch (err) {
@@ -96,7 +172,9 @@ export default class SqliteAdapter extends AbstractAdapter {
 
             throw err;
           }
-        });
+        };
+
+        return connection ? run(connection) : this.runWithConnection(run);
       },
 
       cancel: () => {
@@ -109,12 +187,175 @@ export default class SqliteAdapter extends AbstractAdapter {
     };
   }
 
-  async executeQuery(queryText: string, connection?: sqlite3.Database): Promise<QueryRowResult[]> {
-    const result = await this.driverExecuteQuery({ query: queryText, multiple: true }, connection);
+  stream(queryText: string, options: QueryStreamOptions = {}): QueryStreamReturn {
+    const state: StreamState = { connection: null };
+    const batchSize = options.batchSize || DEFAULT_STREAM_BATCH_SIZE;
 
-    return (<QueryResult[]>result).map((value) => {
-      return parseRowQueryResult(value);
-    });
+    return {
+      [Symbol.asyncIterator]: () => this.streamRows(queryText, batchSize, state),
+
+      cancel: () => {
+        if (!state.connection) {
+          throw new Error('Query not ready to be canceled');
+        }
+
+        state.connection.interrupt();
+      },
+    };
+  }
+
+  /**
+   * The driver does not support pausing the rows iteration, so rows read faster
+   * than they are consumed are kept in memory until the consumer catches up.
+   */
+  async *streamRows(
+    queryText: string,
+    batchSize: number,
+    state: StreamState,
+  ): AsyncGenerator<QueryStreamBatch> {
+    const connection = await this.openDatabase();
+    let completed = false;
+
+    const queue = createBatchQueue({ batchSize });
+    queue.setFields(await this.describeFields(queryText, [], connection));
+
+    connection.each(
+      queryText,
+      (err: Error | null, row: { [column: string]: unknown }) => {
+        if (err) {
+          return queue.fail(err);
+        }
+        queue.push(row);
+      },
+      (err: Error | null) => (err ? queue.fail(err) : queue.end()),
+    );
+
+    try {
+      state.connection = connection;
+
+      yield* this.normalizeBatches(queue.batches());
+      completed = true;
+    } catch (err) {
+      if ((err as { code: string }).code === sqliteErrors.CANCELED) {
+        (err as { sqlectronError: string }).sqlectronError = 'CANCELED_BY_USER';
+      }
+
+      throw err;
+    } finally {
+      state.connection = null;
+
+      if (!completed) {
+        connection.interrupt();
+      }
+      connection.close();
+    }
+  }
+
+  async executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: sqlite3.Database,
+  ): Promise<QueryRowResult[]> {
+    const run = async (connection: sqlite3.Database) => {
+      const result = await runWithTimeout(
+        options.timeout,
+        () =>
+          this.driverExecuteQuery(
+            { query: queryText, params, multiple: true, internal: false },
+            connection,
+          ),
+        () => connection.interrupt(),
+      );
+
+      const parsed: QueryRowResult[] = [];
+      for (const value of <QueryResult[]>result) {
+        const rows = value.data || [];
+        const fields =
+          value.statement.type === 'SELECT'
+            ? await this.describeFields(value.statement.text, rows, connection)
+            : guessFieldsFromRows(rows);
+        parsed.push(parseRowQueryResult(value, fields));
+      }
+      return this.normalizeResults(parsed);
+    };
+
+    return connection ? run(connection) : this.runWithConnection(run);
+  }
+
+  /**
+   * The driver has no columns metadata, so the columns of a plain SELECT of a single
+   * table are typed with their declared type through PRAGMA table_info, which also
+   * works for empty results. The other fields have their category guessed from the rows.
+   */
+  async describeFields(
+    queryText: string,
+    rows: unknown[],
+    connection: sqlite3.Database,
+  ): Promise<ResultField[]> {
+    const guessed = guessFieldsFromRows(rows);
+    const select = parsePlainSelect(queryText);
+    if (!select) {
+      return guessed;
+    }
+
+    try {
+      const schema = select.schema ? `${wrapIdentifier(select.schema)}.` : '';
+      const tableColumns = await new Promise<TableColumnInfo[]>((resolve, reject) => {
+        connection.all(
+          `PRAGMA ${schema}table_info(${wrapIdentifier(select.table)})`,
+          (err: Error | null, data: TableColumnInfo[]) => (err ? reject(err) : resolve(data)),
+        );
+      });
+      const typeOf = (column: string) =>
+        tableColumns.find((info) => info.name.toLowerCase() === column.toLowerCase())?.type;
+
+      const described = select.columns.flatMap(({ name, column }) =>
+        column === '*'
+          ? tableColumns.map((info) => ({ name: info.name, type: info.type }))
+          : [{ name, type: typeOf(column) || '' }],
+      );
+      const columns = rows.length
+        ? guessed.map(({ name }) => ({
+            name,
+            type: described.find((field) => field.name === name)?.type || '',
+          }))
+        : described;
+
+      return columns.map(({ name, type }) => {
+        const guess = guessed.find((field) => field.name === name);
+        const size = /\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/.exec(type);
+        const category = type ? getTypeCategory(type) : guess?.category || 'other';
+        const hasPrecision = category === 'number' && !!size;
+
+        return {
+          name,
+          dataType: type,
+          category,
+          precision: hasPrecision ? Number(size[1]) : undefined,
+          scale: hasPrecision && size[2] ? Number(size[2]) : undefined,
+        };
+      });
+    } catch (err) {
+      logger().debug('unable to describe the fields from the table %j', err);
+      return guessed;
+    }
+  }
+
+  /**
+   * SQLite query plans have neither row estimates nor costs, only the
+   * description of each step.
+   */
+  async explain(queryText: string, options: ExplainOptions = {}): Promise<ExplainPlanNode[]> {
+    if (options.analyze) {
+      throw new Error('SQLite does not support analyzing the query plan.');
+    }
+
+    const { data } = <QueryResult>(
+      await this.driverExecuteQuery({ query: `EXPLAIN QUERY PLAN ${queryText}` })
+    );
+
+    return parseQueryPlan(<{ id: number; parent: number; detail: string }[]>data);
   }
 
   async listTables(
@@ -145,15 +386,40 @@ export default class SqliteAdapter extends AbstractAdapter {
     return <ListViewResult[]>data;
   }
 
+  /**
+   * Uses PRAGMA table_xinfo, the table_info variant also listing the generated columns.
+   */
   async listTableColumns(table: string): Promise<ListTableColumnsResult[]> {
-    const sql = `PRAGMA table_info('${table}')`;
+    const sql = `PRAGMA table_xinfo('${table}')`;
 
     const { data } = <QueryResult>await this.driverExecuteQuery({ query: sql });
 
-    return (<{ name: string; type: string }[]>data).map((row) => ({
-      columnName: row.name,
-      dataType: row.type,
-    }));
+    // the hidden columns of virtual tables are flagged with 1
+    const columns = (<TableColumnInfo[]>data).filter((row) => row.hidden !== 1);
+    const primaryKeys = columns.filter((row) => row.pk > 0);
+
+    return columns.map((row, index) => {
+      const [, first, second] = /\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/.exec(row.type) || [];
+      const isText = /CHAR|CLOB|TEXT|BINARY/i.test(row.type);
+      return {
+        columnName: row.name,
+        dataType: row.type,
+        fullDataType: row.type,
+        ordinalPosition: index + 1,
+        nullable: !row.notnull,
+        defaultValue: row.dflt_value,
+        length: isText && first ? Number(first) : null,
+        precision: !isText && first ? Number(first) : null,
+        scale: !isText && second ? Number(second) : null,
+        isIdentity: false,
+        // a single INTEGER primary key is an alias of the rowid, assigned on insert
+        isAutoIncrement:
+          row.pk > 0 && primaryKeys.length === 1 && row.type.toUpperCase() === 'INTEGER',
+        isGenerated: row.hidden === 2 || row.hidden === 3,
+        collation: null,
+        comment: null,
+      };
+    });
   }
 
   async listTableTriggers(table: string): Promise<string[]> {
@@ -169,6 +435,34 @@ export default class SqliteAdapter extends AbstractAdapter {
     return (<{ name: string }[]>data).map((row) => row.name);
   }
 
+  /**
+   * The timing and event are parsed from the trigger definition. SQLite only
+   * has row level triggers, which can not be disabled.
+   */
+  async describeTableTriggers(table: string): Promise<TableTriggerResult[]> {
+    const sql = `
+      SELECT name, sql
+      FROM sqlite_master
+      WHERE type = 'trigger'
+        AND tbl_name = ?
+      ORDER BY name
+    `;
+
+    const { data } = <QueryResult>await this.driverExecuteQuery({ query: sql, params: [table] });
+
+    return (<{ name: string; sql: string }[]>data).map((row) => {
+      const { timing, event } = parseTriggerDefinition(row.sql);
+      return {
+        name: row.name,
+        timing,
+        events: [event],
+        level: 'ROW',
+        enabled: true,
+        function: null,
+      };
+    });
+  }
+
   async listTableIndexes(table: string): Promise<string[]> {
     const sql = `PRAGMA INDEX_LIST('${table}')`;
 
@@ -177,6 +471,203 @@ export default class SqliteAdapter extends AbstractAdapter {
     return (<{ name: string }[]>data).map((row) => row.name);
   }
 
+  async describeTableIndexes(table: string): Promise<TableIndexResult[]> {
+    return this.runWithConnection(async (connection) => {
+      const { data } = <QueryResult>(
+        await this.driverExecuteQuery({ query: `PRAGMA index_list('${table}')` }, connection)
+      );
+      const indexes = <{ name: string; unique: number; origin: string; partial: number }[]>data;
+
+      return Promise.all(
+        indexes.map(async (index) => {
+          const { data: columns } = <QueryResult>(
+            await this.driverExecuteQuery(
+              { query: `PRAGMA index_xinfo('${index.name}')` },
+              connection,
+            )
+          );
+
+          let predicate: string | null = null;
+          if (index.partial) {
+            const { data: definition } = <QueryResult>await this.driverExecuteQuery(
+              {
+                query: `SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?`,
+                params: [index.name],
+              },
+              connection,
+            );
+            const [{ sql }] = <{ sql: string }[]>definition;
+            predicate = /\bWHERE\b([\s\S]*)$/i.exec(sql)?.[1].trim() || null;
+          }
+
+          return {
+            name: index.name,
+            // the auxiliary columns are the rowid of the row, which are not part of the key
+            columns: (<{ name: string | null; desc: number; key: number }[]>columns)
+              .filter((column) => column.key)
+              .map((column) => ({ name: column.name, order: column.desc ? 'DESC' : 'ASC' })),
+            unique: index.unique === 1,
+            primary: index.origin === 'pk',
+            method: 'btree',
+            predicate,
+            includedColumns: [],
+          };
+        }),
+      );
+    });
+  }
+
+  async getTableReferences(table: string): Promise<string[]> {
+    const foreignKeys = await this.listForeignKeys(table);
+
+    return [...new Set(foreignKeys.map((foreignKey) => foreignKey.referencedTable))];
+  }
+
+  async getTableKeys(table: string): Promise<TableKeysResult[]> {
+    const { data } = <QueryResult>(
+      await this.driverExecuteQuery({ query: `PRAGMA table_info('${table}')` })
+    );
+    const primaryKeys: TableKeysResult[] = (<TableColumnInfo[]>data)
+      .filter((row) => row.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((row) => ({
+        constraintName: null,
+        columnName: row.name,
+        referencedTable: null,
+        keyType: 'PRIMARY KEY',
+      }));
+
+    const foreignKeys = await this.listForeignKeys(table);
+
+    return primaryKeys.concat(
+      ...foreignKeys.map((foreignKey) =>
+        foreignKey.columns.map((column) => ({
+          constraintName: null,
+          columnName: column,
+          referencedTable: foreignKey.referencedTable,
+          keyType: 'FOREIGN KEY',
+        })),
+      ),
+    );
+  }
+
+  /**
+   * The foreign keys are unnamed, as PRAGMA foreign_key_list does not report the
+   * constraint names, and the referenced columns default to the primary key.
+   */
+  async listForeignKeys(table: string): Promise<ForeignKeyResult[]> {
+    return this.runWithConnection(async (connection) => {
+      const { data } = <QueryResult>(
+        await this.driverExecuteQuery({ query: `PRAGMA foreign_key_list('${table}')` }, connection)
+      );
+      const rows = (<ForeignKeyInfo[]>data).sort((a, b) => a.id - b.id || a.seq - b.seq);
+
+      return Promise.all(
+        groupRows(rows, (row) => String(row.id)).map(async (keyRows) => {
+          let referencedColumns = keyRows.map((row) => row.to);
+          if (referencedColumns.some((column) => column === null)) {
+            const { data: columns } = <QueryResult>(
+              await this.driverExecuteQuery(
+                { query: `PRAGMA table_info('${keyRows[0].table}')` },
+                connection,
+              )
+            );
+            referencedColumns = (<TableColumnInfo[]>columns)
+              .filter((column) => column.pk > 0)
+              .sort((a, b) => a.pk - b.pk)
+              .map((column) => column.name);
+          }
+
+          return {
+            name: null,
+            columns: keyRows.map((row) => row.from),
+            referencedSchema: null,
+            referencedTable: keyRows[0].table,
+            referencedColumns: <string[]>referencedColumns,
+            onDelete: keyRows[0].on_delete,
+            onUpdate: keyRows[0].on_update,
+            deferrable: null,
+            initiallyDeferred: null,
+          };
+        }),
+      );
+    });
+  }
+
+  /**
+   * The CHECK clauses are parsed from the table definition, which is the only place
+   * SQLite keeps them.
+   */
+  async listTableConstraints(table: string): Promise<TableConstraintResult[]> {
+    const constraints = await this.runWithConnection(async (connection) => {
+      const { data: columns } = <QueryResult>(
+        await this.driverExecuteQuery({ query: `PRAGMA table_info('${table}')` }, connection)
+      );
+      const primaryKey = (<TableColumnInfo[]>columns)
+        .filter((row) => row.pk > 0)
+        .sort((a, b) => a.pk - b.pk)
+        .map((row) => row.name);
+
+      const { data: indexes } = <QueryResult>(
+        await this.driverExecuteQuery({ query: `PRAGMA index_list('${table}')` }, connection)
+      );
+      const uniqueKeys = await Promise.all(
+        (<{ name: string; origin: string }[]>indexes)
+          .filter((index) => index.origin === 'u')
+          .map(async (index) => {
+            const { data: indexColumns } = <QueryResult>(
+              await this.driverExecuteQuery(
+                { query: `PRAGMA index_info('${index.name}')` },
+                connection,
+              )
+            );
+            return (<{ seqno: number; name: string }[]>indexColumns)
+              .sort((a, b) => a.seqno - b.seqno)
+              .map((column) => column.name);
+          }),
+      );
+
+      const { data: definition } = <QueryResult>await this.driverExecuteQuery(
+        {
+          query: `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+          params: [table],
+        },
+        connection,
+      );
+      const [tableDefinition] = <{ sql: string }[]>definition;
+
+      const keys: TableConstraintResult[] = uniqueKeys.map((uniqueColumns) => ({
+        name: null,
+        type: 'UNIQUE',
+        columns: uniqueColumns,
+        expression: null,
+      }));
+      if (primaryKey.length) {
+        keys.unshift({ name: null, type: 'PRIMARY KEY', columns: primaryKey, expression: null });
+      }
+
+      return keys.concat(
+        parseCheckConstraints(tableDefinition?.sql || '').map(({ name, expression }) => ({
+          name,
+          type: 'CHECK',
+          columns: [],
+          expression,
+        })),
+      );
+    });
+
+    const foreignKeys = await this.listForeignKeys(table);
+
+    return constraints.concat(
+      foreignKeys.map((foreignKey) => ({
+        name: null,
+        type: 'FOREIGN KEY',
+        columns: foreignKey.columns,
+        expression: null,
+      })),
+    );
+  }
+
   async listDatabases(): Promise<string[]> {
     const sql = 'PRAGMA database_list;';
 
@@ -209,6 +700,19 @@ export default class SqliteAdapter extends AbstractAdapter {
     return (<{ sql: string }[]>data).map((row) => appendSemiColon(row.sql));
   }
 
+  async getTriggerCreateScript(trigger: string): Promise<string[]> {
+    const sql = `
+      SELECT sql
+      FROM sqlite_master
+      WHERE type = 'trigger'
+        AND name = ?
+    `;
+
+    const { data } = <QueryResult>await this.driverExecuteQuery({ query: sql, params: [trigger] });
+
+    return (<{ sql: string }[]>data).map((row) => appendSemiColon(row.sql));
+  }
+
   async truncateAllTables(): Promise<void> {
     await this.runWithConnection(async (connection) => {
       const tables = await this.listTables(undefined, connection);
@@ -228,82 +732,150 @@ export default class SqliteAdapter extends AbstractAdapter {
     });
   }
 
-  async driverExecuteQuery(
+  /**
+   * The rows are inserted with a single prepared statement within a transaction,
+   * so the statement is parsed once and the database file is synced once.
+   */
+  async bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    const target = this.getBulkInsertTarget(table, columns, options.schema);
+    const placeholders = columns.map(() => '?').join(', ');
+    const signal = currentSignal();
+
+    return this.runWithConnection(async (connection) => {
+      await this.driverExecuteQuery({ query: 'BEGIN' }, connection);
+
+      try {
+        const rowsInserted = await abortable(
+          signal,
+          () => insertRows(connection, `INSERT INTO ${target} VALUES (${placeholders})`, rows),
+          () => connection.interrupt(),
+        );
+
+        await this.driverExecuteQuery({ query: 'COMMIT' }, connection);
+        return { rowsInserted };
+      } catch (err) {
+        await runWithoutSignal(() => this.driverExecuteQuery({ query: 'ROLLBACK' }, connection));
+        throw err;
+      }
+    });
+  }
+
+  driverExecuteQuery(
     queryArgs: QueryArgs,
     connection?: sqlite3.Database,
   ): Promise<QueryResult | QueryResult[]> {
-    const runQuery = (
-      connection: sqlite3.Database,
-      { executionType, text }: Result,
-    ): Promise<{ data?: unknown[]; lastID: number; changes: number }> =>
-      new Promise((resolve, reject) => {
-        const method = resolveExecutionType(executionType);
-        connection[method](text, queryArgs.params, function (err: Error | null, data?: unknown[]) {
-          if (err) {
-            return reject(err);
-          }
-
-          return resolve({
-            data,
-            // One some versions of node, `this` is not properly typed, and I don't
-            // feel like fighting the ts compiler to figure it out.
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore
-            lastID: (this as RunResult).lastID, // eslint-disable-line @typescript-eslint/no-unnecessary-type-assertion
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore
-            changes: (this as RunResult).changes, // eslint-disable-line @typescript-eslint/no-unnecessary-type-assertion
-          });
-        });
-      });
-
-    const identifyStatementsRunQuery = async (
-      connection: sqlite3.Database,
-    ): Promise<QueryResult | QueryResult[]> => {
-      const statements = identifyCommands(queryArgs.query);
-
-      const results = await Promise.all(
-        statements.map(async (statement) => {
-          const result = await runQuery(connection, statement);
-
-          return {
-            ...result,
-            statement,
-          };
-        }),
-      );
-
-      return queryArgs.multiple ? results : results[0];
-    };
-
-    return connection
-      ? identifyStatementsRunQuery(connection)
-      : this.runWithConnection(identifyStatementsRunQuery);
+    const signal = currentSignal();
+
+    return this.runMiddleware(queryArgs, (queryArgs) => {
+      const runQuery = (
+        connection: sqlite3.Database,
+        { executionType, text }: Result,
+        params?: QueryParams,
+      ): Promise<{ data?: unknown[]; lastID: number; changes: number }> =>
+        abortable(
+          signal,
+          () =>
+            new Promise((resolve, reject) => {
+              const method = resolveExecutionType(executionType);
+              connection[method](text, params, function (err: Error | null, data?: unknown[]) {
+                if (err) {
+                  return reject(err);
+                }
+
+                return resolve({
+                  data,
+                  // One some versions of node, `this` is not properly typed, and I don't
+                  // feel like fighting the ts compiler to figure it out.
+                  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+                  // @ts-ignore
+                  lastID: (this as RunResult).lastID, // eslint-disable-line @typescript-eslint/no-unnecessary-type-assertion
+                  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+                  // @ts-ignore
+                  changes: (this as RunResult).changes, // eslint-disable-line @typescript-eslint/no-unnecessary-type-assertion
+                });
+              });
+            }),
+          () => connection.interrupt(),
+        );
+
+      const identifyStatementsRunQuery = async (
+        connection: sqlite3.Database,
+      ): Promise<QueryResult | QueryResult[]> => {
+        const statements = identifyCommands(queryArgs.query);
+        const statementsParams = splitStatementsParams(statements, queryArgs.params);
+
+        const results = await Promise.all(
+          statements.map(async (statement, idx) => {
+            const result = await runQuery(connection, statement, statementsParams[idx]);
+
+            return {
+              ...result,
+              statement,
+            };
+          }),
+        );
+
+        return queryArgs.multiple ? results : results[0];
+      };
+
+      return connection
+        ? identifyStatementsRunQuery(connection)
+        : this.runWithConnection(identifyStatementsRunQuery);
+    });
   }
 
-  runWithConnection<T>(run: (conn: sqlite3.Database) => Promise<T>): Promise<T> {
+  openDatabase(): Promise<sqlite3.Database> {
     return new Promise((resolve, reject) => {
-      const db = new sqlite3.Database(this.conn.dbConfig.database, (err) => {
+      const mode = this.server.config.readOnly
+        ? sqlite3.OPEN_READONLY
+        : sqlite3.OPEN_READWRITE | sqlite3.OPEN_CREATE;
+
+      const db = new sqlite3.Database(this.conn.dbConfig.database, mode, (err) => {
         if (err) {
           reject(err);
           return;
         }
 
         db.serialize();
-        run(db)
-          .then((results) => {
-            resolve(results);
-          })
-          .catch((runErr) => {
-            reject(runErr);
-          })
-          .finally(() => {
-            db.close();
-          });
+        resolve(db);
       });
     });
   }
 
+  async runWithConnection<T>(run: (conn: sqlite3.Database) => Promise<T>): Promise<T> {
+    const db = await this.openDatabase();
+
+    try {
+      return await run(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * SQLite transactions are always serializable, so any other isolation level
+   * would silently be ignored.
+   */
+  getBeginTransactionQuery(options: TransactionOptions = {}): string {
+    if (options.isolationLevel && options.isolationLevel !== 'SERIALIZABLE') {
+      throw new Error('SQLite only supports the SERIALIZABLE isolation level.');
+    }
+    return 'BEGIN';
+  }
+
+  splitStatements(queryText: string): string[] {
+    return splitStatements(queryText, 'sqlite');
+  }
+
+  createStatementSplitter(): StatementSplitter {
+    return new StatementSplitter('sqlite');
+  }
+
   wrapIdentifier(value: string): string {
     return wrapIdentifier(value);
   }
@@ -316,15 +888,18 @@ export function wrapIdentifier(value: string): string {
   return `"${value.replace(/"/g, '""')}"`;
 }
 
-function parseRowQueryResult({
-  data,
-  statement,
-  changes,
-}: {
-  data?: any[]; // eslint-disable-line @typescript-eslint/no-explicit-any
-  statement: Result;
-  changes: number;
-}): QueryRowResult {
+function parseRowQueryResult(
+  {
+    data,
+    statement,
+    changes,
+  }: {
+    data?: any[]; // eslint-disable-line @typescript-eslint/no-explicit-any
+    statement: Result;
+    changes: number;
+  },
+  fields: ResultField[],
+): QueryRowResult {
   // Fallback in case the identifier could not reconize the command
   const isSelect = Array.isArray(data);
   const rows = data || [];
@@ -332,16 +907,204 @@ function parseRowQueryResult({
   return {
     command: statement.type || (isSelect && 'SELECT'),
     rows,
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-    fields: Object.keys(rows[0] || {}).map((name) => ({ name })),
+    fields,
     rowCount: data && data.length,
     affectedRows: changes || 0,
+    messages: [],
   };
 }
 
+async function insertRows(
+  connection: sqlite3.Database,
+  sql: string,
+  rows: unknown[][],
+): Promise<number> {
+  const statement = await new Promise<sqlite3.Statement>((resolve, reject) => {
+    const prepared: sqlite3.Statement = connection.prepare(sql, (err: Error | null) =>
+      err ? reject(err) : resolve(prepared),
+    );
+  });
+
+  try {
+    let rowsInserted = 0;
+    for (const row of rows) {
+      rowsInserted += await new Promise<number>((resolve, reject) => {
+        statement.run(row, function (this: RunResult, err: Error | null) {
+          if (err) {
+            return reject(err);
+          }
+          resolve(this.changes);
+        });
+      });
+    }
+    return rowsInserted;
+  } finally {
+    statement.finalize();
+  }
+}
+
+/**
+ * Finds the CHECK clauses of a CREATE TABLE statement, skipping the parentheses
+ * within the string literals and quoted identifiers of the clauses.
+ */
+function parseCheckConstraints(sql: string): { name: string | null; expression: string }[] {
+  const checks: { name: string | null; expression: string }[] = [];
+  const pattern = new RegExp(`(?:\\bCONSTRAINT\\s+(${IDENTIFIER})\\s+)?\\bCHECK\\s*\\(`, 'gi');
+
+  let match;
+  while ((match = pattern.exec(sql))) {
+    const start = pattern.lastIndex;
+    let end = start;
+    let depth = 1;
+    let quote: string | null = null;
+    for (; end < sql.length && depth > 0; end++) {
+      const char = sql[end];
+      if (quote) {
+        quote = char === quote ? null : quote;
+      } else if (char === "'" || char === '"' || char === '`') {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+      }
+    }
+
+    checks.push({
+      name: match[1] ? unwrapIdentifier(match[1]) : null,
+      expression: sql.substring(start, end - 1).trim(),
+    });
+    pattern.lastIndex = end;
+  }
+
+  return checks;
+}
+
+/**
+ * Reads the timing and event following the trigger name, the timing being BEFORE
+ * when it is omitted.
+ */
+function parseTriggerDefinition(sql: string): { timing: TriggerTiming; event: TriggerEvent } {
+  const matched = new RegExp(
+    `^\\s*CREATE\\s+(?:TEMP(?:ORARY)?\\s+)?TRIGGER\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?` +
+      `(?:${IDENTIFIER}\\s*\\.\\s*)?${IDENTIFIER}\\s+(BEFORE|AFTER|INSTEAD\\s+OF)?\\s*(DELETE|INSERT|UPDATE)\\b`,
+    'i',
+  ).exec(sql);
+
+  return {
+    timing: <TriggerTiming>(matched?.[1] || 'BEFORE').toUpperCase().replace(/\s+/, ' '),
+    event: <TriggerEvent>(matched?.[2] || 'INSERT').toUpperCase(),
+  };
+}
+
+function unwrapIdentifier(value: string): string {
+  const quoted = /^(["`[])([\s\S]*)["`\]]$/.exec(value);
+  if (!quoted) {
+    return value;
+  }
+  return quoted[1] === '"' ? quoted[2].replace(/""/g, '"') : quoted[2];
+}
+
+/**
+ * Reads the table and the columns of a SELECT of a single table whose columns are
+ * all table columns, optionally aliased, or `*`. Any other statement is left to the
+ * rows to describe.
+ */
+function parsePlainSelect(
+  queryText: string,
+): { schema?: string; table: string; columns: { name: string; column: string }[] } | undefined {
+  const matched = new RegExp(
+    `^\\s*SELECT\\s+(?:ALL\\s+|DISTINCT\\s+)?([^()]+?)\\s+FROM\\s+(?:(${IDENTIFIER})\\s*\\.\\s*)?(${IDENTIFIER})` +
+      `(?:\\s+(?:AS\\s+)?(?!(?:WHERE|GROUP|ORDER|LIMIT)\\b)${IDENTIFIER})?` +
+      `(?:\\s+(?:WHERE|GROUP|ORDER|LIMIT)\\b[\\s\\S]*)?\\s*;?\\s*$`,
+    'i',
+  ).exec(queryText);
+  if (!matched) {
+    return undefined;
+  }
+
+  const item = new RegExp(
+    `^(?:${IDENTIFIER}\\s*\\.\\s*)?(\\*|${IDENTIFIER})(?:\\s+(?:AS\\s+)?(${IDENTIFIER}))?$`,
+    'i',
+  );
+  const columns = [];
+  for (const text of matched[1].split(',')) {
+    const column = item.exec(text.trim());
+    if (!column || /^\d/.test(column[1])) {
+      return undefined;
+    }
+    const name = unwrapIdentifier(column[1]);
+    columns.push({ name: column[2] ? unwrapIdentifier(column[2]) : name, column: name });
+  }
+
+  return {
+    schema: matched[2] ? unwrapIdentifier(matched[2]) : undefined,
+    table: unwrapIdentifier(matched[3]),
+    columns,
+  };
+}
+
+function parseQueryPlan(rows: { id: number; parent: number; detail: string }[]): ExplainPlanNode[] {
+  const roots: ExplainPlanNode[] = [];
+  const nodes: { [id: number]: ExplainPlanNode } = {};
+
+  rows.forEach(({ id, parent, detail }) => {
+    const relation = /^(?:SCAN|SEARCH)(?: TABLE)? (\S+)/.exec(detail);
+    const node: ExplainPlanNode = {
+      operation: detail,
+      relation: relation ? relation[1] : undefined,
+      children: [],
+    };
+
+    nodes[id] = node;
+    if (nodes[parent]) {
+      nodes[parent].children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Each statement is executed on its own, so it must be given only the parameters
+ * it uses. Positional parameters are consumed in order by the statements, while
+ * named parameters are looked up by their name with or without the prefix.
+ */
+function splitStatementsParams(
+  statements: Result[],
+  params?: QueryParams,
+): (QueryParams | undefined)[] {
+  if (!params) {
+    return statements.map(() => undefined);
+  }
+
+  let position = 0;
+  return statements.map((statement) => {
+    if (Array.isArray(params)) {
+      const count = statement.parameters.filter((name) => name === '?').length;
+      position += count;
+      return params.slice(position - count, position);
+    }
+
+    const statementParams: { [name: string]: unknown } = {};
+    statement.parameters
+      .filter((name) => name !== '?')
+      .forEach((name) => {
+        statementParams[name] = name in params ? params[name] : params[name.substring(1)];
+      });
+    return statementParams;
+  });
+}
+
 function identifyCommands(queryText: string) {
   try {
-    return identify(queryText, { strict: false });
+    return identify(queryText, {
+      strict: false,
+      dialect: 'sqlite',
+      paramTypes: { positional: true, named: [':', '@', '$'] },
+    });
   } catch (err) {
     return [];
   }
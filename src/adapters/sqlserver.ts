@@ -1,21 +1,57 @@
-import { ConnectionPool } from 'mssql';
+import { ConnectionPool, MAX, Table, TYPES } from 'mssql';
 
+import { abortable, currentSignal } from '../abort';
+import { hasBatchSeparator, splitBatches } from '../directives';
 import { buildDatabaseFilter, buildSchemaFilter } from '../filters';
 import createLogger from '../logger';
-import { identifyCommands, appendSemiColon } from '../utils';
-import { AbstractAdapter, QueryArgs, QueryRowResult } from './abstract_adapter';
+import { StatementSplitter } from '../splitter';
+import {
+  identifyCommands,
+  appendSemiColon,
+  createBatchQueue,
+  getTypeCategory,
+  groupRows,
+  runWithTimeout,
+  splitStatements,
+} from '../utils';
+import {
+  AbstractAdapter,
+  DEFAULT_STREAM_BATCH_SIZE,
+  QueryArgs,
+  QueryParams,
+  QueryRowResult,
+} from './abstract_adapter';
 
-import type { config, Request, IResult, IRecordSet } from 'mssql';
+import type { config, Request, IResult, IRecordSet, IColumnMetadata, ISqlType } from 'mssql';
 import type { Database } from '../database';
 import type { DatabaseFilter, SchemaFilter } from '../filters';
 import type { Server } from '../server';
 import type {
+  AdapterConnection,
+  AdapterQueryOptions,
+  BulkInsertOptions,
+  BulkInsertResult,
+  ExplainOptions,
+  ExplainPlanNode,
+  ForeignKeyAction,
+  ForeignKeyResult,
   ListTableResult,
   ListViewResult,
   ListRoutineResult,
   ListTableColumnsResult,
+  TableConstraintResult,
+  TableConstraintType,
+  TableIndexResult,
   TableKeysResult,
+  TableTriggerResult,
+  TriggerEvent,
+  QueryMessage,
   QueryReturn,
+  QueryStreamBatch,
+  QueryStreamOptions,
+  QueryStreamReturn,
+  ResultField,
+  TransactionOptions,
 } from './abstract_adapter';
 
 const logger = createLogger('db:clients:sqlserver');
@@ -28,6 +64,7 @@ interface QueryResult<T = unknown> {
   request: Request;
   result: IResult<unknown>;
   data: IRecordSet<T>[];
+  messages: QueryMessage[];
 }
 
 interface SingleQueryResult<T = unknown> {
@@ -36,6 +73,26 @@ interface SingleQueryResult<T = unknown> {
   data: IRecordSet<T>;
 }
 
+interface StreamState {
+  request: Request | null;
+}
+
+interface ColumnQuery {
+  column_name: string;
+  data_type: string;
+  ordinal_position: number;
+  is_nullable: string;
+  column_default: string | null;
+  character_maximum_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+  datetime_precision: number | null;
+  collation_name: string | null;
+  is_identity: number;
+  is_computed: number;
+  column_comment: string | null;
+}
+
 interface ListTableQuery {
   table_schema: string;
   table_name: string;
@@ -62,6 +119,7 @@ export default class SqlServerAdapter extends AbstractAdapter {
       server: <string>this.server.config.host,
       database: this.database.database,
       port: this.server.config.port,
+      // the pool timeout applies to every request, so user queries are timed out one by one
       requestTimeout: Infinity,
       domain: this.server.config.domain,
       pool: {
@@ -71,6 +129,8 @@ export default class SqlServerAdapter extends AbstractAdapter {
         encrypt: !!this.server.config.ssl,
         appName: this.server.config.applicationName || 'sqlectron',
         enableArithAbort: true,
+        // only routes the connection to a read-only replica, the statements are checked by Database
+        readOnlyIntent: !!this.server.config.readOnly,
       },
     };
 
@@ -210,25 +270,65 @@ export default class SqlServerAdapter extends AbstractAdapter {
     }));
   }
 
-  async listTableColumns(table: string): Promise<ListTableColumnsResult[]> {
-    const sql = `
-      SELECT column_name, data_type
-      FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE table_name = '${table}'
-      ORDER BY ordinal_position
-    `;
+  async listTableColumns(table: string, schema?: string): Promise<ListTableColumnsResult[]> {
+    const columns = await this.describeColumns(table, schema);
 
-    const { data } = await this.driverExecuteSingleQuery<{
-      column_name: string;
-      data_type: string;
-    }>({ query: sql });
-
-    return data.map((row) => ({
+    return columns.map((row) => ({
       columnName: row.column_name,
       dataType: row.data_type,
+      fullDataType: formatDataType(row),
+      ordinalPosition: row.ordinal_position,
+      nullable: row.is_nullable === 'YES',
+      defaultValue: row.column_default,
+      length: row.character_maximum_length,
+      precision: row.numeric_precision,
+      scale: row.numeric_scale,
+      isIdentity: row.is_identity === 1,
+      isAutoIncrement: row.is_identity === 1,
+      isGenerated: row.is_computed === 1,
+      collation: row.collation_name,
+      comment: row.column_comment,
     }));
   }
 
+  /**
+   * Columns of the table in the given schema, or in the default schema of the user.
+   */
+  async describeColumns(
+    table: string,
+    schema?: string,
+    connection?: ConnectionPool,
+  ): Promise<ColumnQuery[]> {
+    const sql = `
+      SELECT
+        c.column_name, c.data_type, c.ordinal_position, c.is_nullable, c.column_default,
+        c.character_maximum_length, c.numeric_precision, c.numeric_scale, c.datetime_precision,
+        c.collation_name,
+        COLUMNPROPERTY(t.object_id, c.column_name, 'IsIdentity') AS is_identity,
+        COLUMNPROPERTY(t.object_id, c.column_name, 'IsComputed') AS is_computed,
+        CAST(ep.value AS NVARCHAR(4000)) AS column_comment
+      FROM INFORMATION_SCHEMA.COLUMNS c
+      CROSS APPLY (
+        SELECT OBJECT_ID(QUOTENAME(c.table_schema) + '.' + QUOTENAME(c.table_name)) AS object_id
+      ) t
+      LEFT JOIN sys.extended_properties ep
+        ON ep.class = 1
+        AND ep.major_id = t.object_id
+        AND ep.minor_id = COLUMNPROPERTY(t.object_id, c.column_name, 'ColumnId')
+        AND ep.name = 'MS_Description'
+      WHERE c.table_name = @table
+      AND c.table_schema = COALESCE(@schema, schema_name())
+      ORDER BY c.ordinal_position
+    `;
+
+    const { data } = await this.driverExecuteSingleQuery<ColumnQuery>(
+      { query: sql, params: { table, schema } },
+      connection,
+    );
+
+    return data;
+  }
+
   async listTableTriggers(table: string): Promise<string[]> {
     // SQL Server does not have information_schema for triggers, so other way around
     // is using sp_helptrigger stored procedure to fetch triggers related to table
@@ -239,6 +339,39 @@ export default class SqlServerAdapter extends AbstractAdapter {
     return data.map((row) => row.trigger_name);
   }
 
+  /**
+   * SQL Server triggers fire once per statement.
+   */
+  async describeTableTriggers(table: string, schema?: string): Promise<TableTriggerResult[]> {
+    const sql = `
+      SELECT
+        tr.name AS trigger_name,
+        tr.is_instead_of_trigger,
+        tr.is_disabled,
+        te.type_desc AS event
+      FROM sys.triggers tr
+      JOIN sys.trigger_events te ON te.object_id = tr.object_id
+      WHERE tr.parent_id = OBJECT_ID(QUOTENAME(COALESCE(@schema, schema_name())) + '.' + QUOTENAME(@table))
+      ORDER BY tr.name, te.type
+    `;
+
+    const { data } = await this.driverExecuteSingleQuery<{
+      trigger_name: string;
+      is_instead_of_trigger: boolean;
+      is_disabled: boolean;
+      event: TriggerEvent;
+    }>({ query: sql, params: { table, schema } });
+
+    return groupRows(data, (row) => row.trigger_name).map((rows) => ({
+      name: rows[0].trigger_name,
+      timing: rows[0].is_instead_of_trigger ? 'INSTEAD OF' : 'AFTER',
+      events: rows.map((row) => row.event),
+      level: 'STATEMENT',
+      enabled: !rows[0].is_disabled,
+      function: null,
+    }));
+  }
+
   async listTableIndexes(table: string): Promise<string[]> {
     // SQL Server does not have information_schema for indexes, so other way around
     // is using sp_helpindex stored procedure to fetch indexes related to table
@@ -249,6 +382,48 @@ export default class SqlServerAdapter extends AbstractAdapter {
     return data.map((row) => row.index_name);
   }
 
+  async describeTableIndexes(table: string, schema?: string): Promise<TableIndexResult[]> {
+    const sql = `
+      SELECT
+        i.name AS index_name,
+        i.is_unique,
+        i.is_primary_key,
+        i.type_desc,
+        i.filter_definition,
+        c.name AS column_name,
+        ic.is_descending_key,
+        ic.is_included_column
+      FROM sys.indexes i
+      JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE i.object_id = OBJECT_ID(QUOTENAME(COALESCE(@schema, schema_name())) + '.' + QUOTENAME(@table))
+      ORDER BY i.name, ic.key_ordinal, ic.index_column_id
+    `;
+
+    const { data } = await this.driverExecuteSingleQuery<{
+      index_name: string;
+      is_unique: boolean;
+      is_primary_key: boolean;
+      type_desc: string;
+      filter_definition: string | null;
+      column_name: string;
+      is_descending_key: boolean;
+      is_included_column: boolean;
+    }>({ query: sql, params: { table, schema } });
+
+    return groupRows(data, (row) => row.index_name).map((rows) => ({
+      name: rows[0].index_name,
+      columns: rows
+        .filter((row) => !row.is_included_column)
+        .map((row) => ({ name: row.column_name, order: row.is_descending_key ? 'DESC' : 'ASC' })),
+      unique: rows[0].is_unique,
+      primary: rows[0].is_primary_key,
+      method: rows[0].type_desc.toLowerCase(),
+      predicate: rows[0].filter_definition,
+      includedColumns: rows.filter((row) => row.is_included_column).map((row) => row.column_name),
+    }));
+  }
+
   async getTableReferences(table: string): Promise<string[]> {
     const sql = `
       SELECT OBJECT_NAME(referenced_object_id) referenced_table_name
@@ -296,6 +471,96 @@ export default class SqlServerAdapter extends AbstractAdapter {
     }));
   }
 
+  /**
+   * SQL Server does not support deferred constraints.
+   */
+  async listForeignKeys(table: string, schema?: string): Promise<ForeignKeyResult[]> {
+    const sql = `
+      SELECT
+        fk.name AS constraint_name,
+        c.name AS column_name,
+        SCHEMA_NAME(rt.schema_id) AS referenced_schema,
+        rt.name AS referenced_table,
+        rc.name AS referenced_column,
+        fk.update_referential_action_desc,
+        fk.delete_referential_action_desc
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+      JOIN sys.columns c ON c.object_id = fkc.parent_object_id AND c.column_id = fkc.parent_column_id
+      JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+      JOIN sys.columns rc
+        ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+      WHERE fk.parent_object_id = OBJECT_ID(QUOTENAME(COALESCE(@schema, schema_name())) + '.' + QUOTENAME(@table))
+      ORDER BY fk.name, fkc.constraint_column_id
+    `;
+
+    const { data } = await this.driverExecuteSingleQuery<{
+      constraint_name: string;
+      column_name: string;
+      referenced_schema: string;
+      referenced_table: string;
+      referenced_column: string;
+      update_referential_action_desc: string;
+      delete_referential_action_desc: string;
+    }>({ query: sql, params: { table, schema } });
+
+    return groupRows(data, (row) => row.constraint_name).map((rows) => ({
+      name: rows[0].constraint_name,
+      columns: rows.map((row) => row.column_name),
+      referencedSchema: rows[0].referenced_schema,
+      referencedTable: rows[0].referenced_table,
+      referencedColumns: rows.map((row) => row.referenced_column),
+      onDelete: parseReferentialAction(rows[0].delete_referential_action_desc),
+      onUpdate: parseReferentialAction(rows[0].update_referential_action_desc),
+      deferrable: false,
+      initiallyDeferred: false,
+    }));
+  }
+
+  async listTableConstraints(table: string, schema?: string): Promise<TableConstraintResult[]> {
+    const sql = `
+      DECLARE @object_id INT = OBJECT_ID(QUOTENAME(COALESCE(@schema, schema_name())) + '.' + QUOTENAME(@table));
+
+      SELECT
+        kc.name AS constraint_name,
+        CASE kc.type WHEN 'PK' THEN 'PRIMARY KEY' ELSE 'UNIQUE' END AS constraint_type,
+        c.name AS column_name,
+        NULL AS definition,
+        ic.key_ordinal AS position
+      FROM sys.key_constraints kc
+      JOIN sys.index_columns ic ON ic.object_id = kc.parent_object_id AND ic.index_id = kc.unique_index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE kc.parent_object_id = @object_id
+      UNION ALL
+      SELECT fk.name, 'FOREIGN KEY', c.name, NULL, fkc.constraint_column_id
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+      JOIN sys.columns c ON c.object_id = fkc.parent_object_id AND c.column_id = fkc.parent_column_id
+      WHERE fk.parent_object_id = @object_id
+      UNION ALL
+      -- the table level check constraints have no parent column
+      SELECT cc.name, 'CHECK', c.name, cc.definition, 0
+      FROM sys.check_constraints cc
+      LEFT JOIN sys.columns c ON c.object_id = cc.parent_object_id AND c.column_id = cc.parent_column_id
+      WHERE cc.parent_object_id = @object_id
+      ORDER BY constraint_name, position
+    `;
+
+    const { data } = await this.driverExecuteSingleQuery<{
+      constraint_name: string;
+      constraint_type: TableConstraintType;
+      column_name: string | null;
+      definition: string | null;
+    }>({ query: sql, params: { table, schema } });
+
+    return groupRows(data, (row) => row.constraint_name).map((rows) => ({
+      name: rows[0].constraint_name,
+      type: rows[0].constraint_type,
+      columns: rows.filter((row) => row.column_name).map((row) => <string>row.column_name),
+      expression: rows[0].definition,
+    }));
+  }
+
   getQuerySelectTop(table: string, limit: number): string {
     return `SELECT TOP ${limit} * FROM ${this.wrapIdentifier(table)}`;
   }
@@ -395,6 +660,23 @@ export default class SqlServerAdapter extends AbstractAdapter {
     return data.map((row) => appendSemiColon(row.routine_definition));
   }
 
+  async getTriggerCreateScript(trigger: string, schema?: string): Promise<string[]> {
+    const sql = `
+      SELECT OBJECT_DEFINITION(
+        OBJECT_ID(QUOTENAME(COALESCE(@schema, schema_name())) + '.' + QUOTENAME(@trigger))
+      ) AS definition
+    `;
+
+    const { data } = await this.driverExecuteSingleQuery<{ definition: string | null }>({
+      query: sql,
+      params: { trigger, schema },
+    });
+
+    return data
+      .filter((row) => row.definition !== null)
+      .map((row) => appendSemiColon(<string>row.definition));
+  }
+
   async truncateAllTables(): Promise<void> {
     await this.runWithConnection(async (connection: ConnectionPool) => {
       const schema = await this.getSchema(connection);
@@ -448,21 +730,100 @@ export default class SqlServerAdapter extends AbstractAdapter {
     });
   }
 
-  query(queryText: string): QueryReturn {
+  /**
+   * The rows are loaded with the bulk API of the driver, which requires the
+   * types of the columns to be known beforehand.
+   */
+  async bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions = {},
+  ): Promise<BulkInsertResult> {
+    const signal = currentSignal();
+
+    return this.runWithConnection(async (connection) => {
+      const schema = options.schema || (await this.getSchema(connection));
+      const data = await this.describeColumns(table, schema, connection);
+
+      const bulkTable = new Table(`${wrapIdentifier(schema)}.${wrapIdentifier(table)}`);
+      columns.forEach((name) => {
+        const column = data.find((row) => row.column_name === name);
+        if (!column) {
+          throw new Error(`Column "${name}" does not exist in table "${schema}.${table}"`);
+        }
+        bulkTable.columns.add(name, getColumnType(column), {
+          nullable: column.is_nullable === 'YES',
+        });
+      });
+      rows.forEach((row) => bulkTable.rows.add(...(row as (string | number | boolean)[])));
+
+      const request = connection.request();
+      const result = await abortable(
+        signal,
+        () => request.bulk(bulkTable),
+        () => request.cancel(),
+      );
+
+      return { rowsInserted: result.rowsAffected };
+    });
+  }
+
+  /**
+   * The shared pool may run each request on a different connection, so a
+   * single connection pool is dedicated to the caller instead. Its connection
+   * is never evicted once idle, as a new one would lose the session state and
+   * roll back the open transaction.
+   */
+  openConnectionPool(): Promise<ConnectionPool> {
+    return new ConnectionPool({
+      ...this.conn.dbConfig,
+      pool: { max: 1, min: 1, idleTimeoutMillis: Number.MAX_SAFE_INTEGER },
+    }).connect();
+  }
+
+  async openConnection(): Promise<AdapterConnection> {
+    const connection = await this.openConnectionPool();
+
+    return {
+      query: (queryText, params, options) => this.query(queryText, params, options, connection),
+      executeQuery: (queryText, params, options) =>
+        this.executeQuery(queryText, params, options, connection),
+      release: () => connection.close(),
+    };
+  }
+
+  query(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: ConnectionPool,
+  ): QueryReturn {
     let queryRequest: null | Request = null;
 
     return {
       execute: () => {
-        return this.runWithConnection(async (connection: ConnectionPool) => {
+        const signal = currentSignal();
+
+        const run = async (queryText: string, connection: ConnectionPool) => {
           const request = connection.request();
           request.multiple = true;
+          bindParameters(request, params);
+          const messages = collectMessages(request, queryText);
 
           try {
-            const promiseQuery = request.query(queryText);
-
             queryRequest = request;
 
-            const result = await promiseQuery;
+            const result = await abortable(
+              signal,
+              () =>
+                runWithTimeout(
+                  options.timeout,
+                  () => request.query(queryText),
+                  () => request.cancel(),
+                ),
+              () => request.cancel(),
+            );
             const data = request.multiple ? result.recordsets : result.recordset;
             const affectedRows = result.rowsAffected
               ? result.rowsAffected.reduce((a, b) => a + b, 0)
@@ -472,10 +833,20 @@ export default class SqlServerAdapter extends AbstractAdapter {
 
             // Executing only non select queries will not return results.
             // So we "fake" there is at least one result.
-            const results = <IRecordSet<unknown>[]>(!data.length && affectedRows ? [[]] : data);
+            const results = <IRecordSet<unknown>[]>(
+              (!data.length && (affectedRows || messages.length) ? [[]] : data)
+            );
 
-            return results.map((_, idx) =>
-              parseRowQueryResult(results[idx], affectedRows, commands[idx]),
+            // The messages are not bound to a result set, so they are all kept in the last one
+            return this.normalizeResults(
+              results.map((_, idx) =>
+                parseRowQueryResult(
+                  results[idx],
+                  affectedRows,
+                  commands[idx],
+                  idx === results.length - 1 ? messages : [],
+                ),
+              ),
             );
           } catch (err: unknown) {
             if ((err as { code: string }).code === mmsqlErrors.CANCELED) {
@@ -484,7 +855,15 @@ export default class SqlServerAdapter extends AbstractAdapter {
 
             throw err;
           }
-        });
+        };
+
+        if (hasBatchSeparator(queryText)) {
+          return this.runBatches(queryText, connection, run);
+        }
+
+        return connection
+          ? run(queryText, connection)
+          : this.runWithConnection((connection) => run(queryText, connection));
       },
 
       cancel: () => {
@@ -497,11 +876,131 @@ export default class SqlServerAdapter extends AbstractAdapter {
     };
   }
 
-  async executeQuery(queryText: string, connection?: ConnectionPool): Promise<QueryRowResult[]> {
-    const { data, result } = await this.driverExecuteQuery(
+  stream(queryText: string, options: QueryStreamOptions = {}): QueryStreamReturn {
+    const state: StreamState = { request: null };
+    const batchSize = options.batchSize || DEFAULT_STREAM_BATCH_SIZE;
+
+    return {
+      [Symbol.asyncIterator]: () => this.streamRows(queryText, batchSize, state),
+
+      cancel: () => {
+        if (!state.request) {
+          throw new Error('Query not ready to be canceled');
+        }
+
+        state.request.cancel();
+      },
+    };
+  }
+
+  /**
+   * Uses the driver stream mode, which emits the rows one by one instead of
+   * buffering them. The request is paused while the consumer is not able to
+   * keep up with the results.
+   */
+  async *streamRows(
+    queryText: string,
+    batchSize: number,
+    state: StreamState,
+  ): AsyncGenerator<QueryStreamBatch> {
+    const request = await this.runWithConnection((connection) =>
+      Promise.resolve(connection.request()),
+    );
+    request.stream = true;
+    let completed = false;
+
+    const queue = createBatchQueue({
+      batchSize,
+      pause: () => request.pause(),
+      resume: () => request.resume(),
+    });
+
+    request.on('recordset', (columns: IColumnMetadata) => queue.setFields(parseFields(columns)));
+    request.on('row', (row) => queue.push(row));
+    request.on('error', (err) => queue.fail(err));
+    request.on('done', () => queue.end());
+
+    try {
+      state.request = request;
+      void request.query(queryText);
+
+      yield* this.normalizeBatches(queue.batches());
+      completed = true;
+    } catch (err) {
+      if ((err as { code: string }).code === mmsqlErrors.CANCELED) {
+        (err as { sqlectronError: string }).sqlectronError = 'CANCELED_BY_USER';
+      }
+
+      throw err;
+    } finally {
+      state.request = null;
+
+      if (!completed) {
+        request.cancel();
+      }
+    }
+  }
+
+  async executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options: AdapterQueryOptions = {},
+    connection?: ConnectionPool,
+  ): Promise<QueryRowResult[]> {
+    if (hasBatchSeparator(queryText)) {
+      return this.runBatches(queryText, connection, (batch, connection) =>
+        this.executeBatch(batch, params, options, connection),
+      );
+    }
+
+    return this.executeBatch(queryText, params, options, connection);
+  }
+
+  /**
+   * The batches separated by GO are executed one after the other on the same connection,
+   * as they may depend on the session state set by the previous batches.
+   */
+  async runBatches(
+    queryText: string,
+    connection: ConnectionPool | undefined,
+    run: (batch: string, connection: ConnectionPool) => Promise<QueryRowResult[]>,
+  ): Promise<QueryRowResult[]> {
+    const runAll = async (connection: ConnectionPool) => {
+      const results: QueryRowResult[] = [];
+      for (const { text, count } of splitBatches(queryText)) {
+        for (let i = 0; i < count; i++) {
+          results.push(...(await run(text, connection)));
+        }
+      }
+      return results;
+    };
+
+    if (connection) {
+      return runAll(connection);
+    }
+
+    // the shared pool could run each batch on a different connection
+    const dedicated = await this.openConnectionPool();
+    try {
+      return await runAll(dedicated);
+    } finally {
+      await dedicated.close();
+    }
+  }
+
+  async executeBatch(
+    queryText: string,
+    params: QueryParams | undefined,
+    options: AdapterQueryOptions,
+    connection?: ConnectionPool,
+  ): Promise<QueryRowResult[]> {
+    const { data, result, messages } = await this.driverExecuteQuery(
       {
         query: queryText,
+        params,
         multiple: true,
+        internal: false,
+        timeout: options.timeout,
       },
       connection,
     );
@@ -511,15 +1010,58 @@ export default class SqlServerAdapter extends AbstractAdapter {
     // Executing only non select queries will not return results.
     // So we "fake" there is at least one result.
     const rowsAffected = result.rowsAffected.reduce((a, b) => a + b, 0);
-    const results = !data.length && rowsAffected ? [[]] : data;
-
-    return (<Array<IRecordSet<unknown> | []>>results).map(
-      (value: IRecordSet<unknown> | [], idx: number) => {
-        return parseRowQueryResult(value, rowsAffected, commands[idx]);
-      },
+    const results = !data.length && (rowsAffected || messages.length) ? [[]] : data;
+
+    // The messages are not bound to a result set, so they are all kept in the last one
+    return this.normalizeResults(
+      (<Array<IRecordSet<unknown> | []>>results).map(
+        (value: IRecordSet<unknown> | [], idx: number) => {
+          return parseRowQueryResult(
+            value,
+            rowsAffected,
+            commands[idx],
+            idx === results.length - 1 ? messages : [],
+          );
+        },
+      ),
     );
   }
 
+  /**
+   * The plan settings are only applied to the connection which enables them, and
+   * analyzing the plan (STATISTICS XML) executes the query.
+   */
+  async explain(queryText: string, options: ExplainOptions = {}): Promise<ExplainPlanNode[]> {
+    const setting = options.analyze ? 'STATISTICS XML' : 'SHOWPLAN_XML';
+    const connection = await this.openConnectionPool();
+
+    try {
+      // SET SHOWPLAN_XML must be the only statement in the batch
+      await this.driverExecuteQuery({ query: `SET ${setting} ON` }, connection);
+      const { data } = await this.driverExecuteQuery(
+        { query: queryText, multiple: true },
+        connection,
+      );
+
+      const plans: string[] = [];
+      data.forEach((recordset) =>
+        recordset.forEach((row) => {
+          const value = Object.values(row as { [key: string]: unknown })[0];
+          if (typeof value === 'string' && value.startsWith('<ShowPlanXML')) {
+            plans.push(value);
+          }
+        }),
+      );
+
+      return plans.reduce<ExplainPlanNode[]>(
+        (nodes, plan) => nodes.concat(parseShowPlan(plan)),
+        [],
+      );
+    } finally {
+      await connection.close();
+    }
+  }
+
   async driverExecuteSingleQuery<T = unknown>(
     queryArgs: QueryArgs,
     connection?: ConnectionPool,
@@ -532,28 +1074,45 @@ export default class SqlServerAdapter extends AbstractAdapter {
     };
   }
 
-  async driverExecuteQuery<T = unknown>(
+  driverExecuteQuery<T = unknown>(
     queryArgs: QueryArgs,
     connection?: ConnectionPool,
   ): Promise<QueryResult<T>> {
-    const runQuery = async (connection: ConnectionPool): Promise<QueryResult<T>> => {
-      const request = connection.request();
-      if (queryArgs.multiple) {
-        request.multiple = true;
-      }
-
-      const result = await request.query(queryArgs.query);
+    const signal = currentSignal();
 
-      return {
-        request,
-        result,
-        data: request.multiple
-          ? (result.recordsets as IRecordSet<T>[])
-          : [result.recordset as IRecordSet<T>],
+    return this.runMiddleware(queryArgs, (queryArgs) => {
+      const runQuery = async (connection: ConnectionPool): Promise<QueryResult<T>> => {
+        const request = connection.request();
+        if (queryArgs.multiple) {
+          request.multiple = true;
+        }
+        bindParameters(request, queryArgs.params);
+        const messages = collectMessages(request, queryArgs.query);
+
+        // the request is canceled once timed out, as the driver does for the pool timeout
+        const result = await abortable(
+          signal,
+          () =>
+            runWithTimeout(
+              queryArgs.timeout,
+              () => request.query(queryArgs.query),
+              () => request.cancel(),
+            ),
+          () => request.cancel(),
+        );
+
+        return {
+          request,
+          result,
+          messages,
+          data: request.multiple
+            ? (result.recordsets as IRecordSet<T>[])
+            : [result.recordset as IRecordSet<T>],
+        };
       };
-    };
 
-    return connection ? runQuery(connection) : this.runWithConnection(runQuery);
+      return connection ? runQuery(connection) : this.runWithConnection(runQuery);
+    });
   }
 
   async runWithConnection<T = QueryResult>(
@@ -565,20 +1124,269 @@ export default class SqlServerAdapter extends AbstractAdapter {
     return run(this.conn.connection);
   }
 
+  getBeginTransactionQuery(options: TransactionOptions = {}): string {
+    if (options.isolationLevel) {
+      return `SET TRANSACTION ISOLATION LEVEL ${options.isolationLevel}; BEGIN TRANSACTION;`;
+    }
+    return 'BEGIN TRANSACTION';
+  }
+
+  getCommitTransactionQuery(): string {
+    return 'COMMIT TRANSACTION';
+  }
+
+  getRollbackTransactionQuery(): string {
+    return 'ROLLBACK TRANSACTION';
+  }
+
+  getSavepointQuery(name: string): string {
+    return `SAVE TRANSACTION ${this.wrapIdentifier(name)}`;
+  }
+
+  getRollbackToSavepointQuery(name: string): string {
+    return `ROLLBACK TRANSACTION ${this.wrapIdentifier(name)}`;
+  }
+
+  getReleaseSavepointQuery(): null {
+    return null;
+  }
+
+  /**
+   * Scripts separated by GO are split in their batches, which are the unit executed by the server.
+   */
+  splitStatements(queryText: string): string[] {
+    if (hasBatchSeparator(queryText)) {
+      return splitBatches(queryText).flatMap(({ text, count }) => Array<string>(count).fill(text));
+    }
+    return splitStatements(queryText, 'mssql');
+  }
+
+  createStatementSplitter(): StatementSplitter {
+    return new StatementSplitter('mssql');
+  }
+
   wrapIdentifier(value: string): string {
     return wrapIdentifier(value);
   }
+
+  getParameterPlaceholder(index: number): string {
+    return `@p${index + 1}`;
+  }
 }
 
 export function wrapIdentifier(value: string): string {
   return value !== '*' ? `[${value.replace(/\[/g, '[')}]` : '*';
 }
 
+/**
+ * Formats the type as it is declared, such as `varchar(max)` or `decimal(10,2)`.
+ */
+function formatDataType(column: ColumnQuery): string {
+  const type = column.data_type;
+  switch (type) {
+    case 'varchar':
+    case 'nvarchar':
+    case 'char':
+    case 'nchar':
+    case 'varbinary':
+    case 'binary':
+      return `${type}(${
+        column.character_maximum_length === -1 ? 'max' : Number(column.character_maximum_length)
+      })`;
+    case 'decimal':
+    case 'numeric':
+      return `${type}(${Number(column.numeric_precision)},${Number(column.numeric_scale)})`;
+    case 'datetime2':
+    case 'datetimeoffset':
+    case 'time':
+      return `${type}(${Number(column.datetime_precision)})`;
+    default:
+      return type;
+  }
+}
+
+/**
+ * Types the column with the driver type of the same name, falling back to
+ * NVARCHAR(MAX) for the types the driver does not know.
+ */
+function getColumnType(column: ColumnQuery): ISqlType {
+  const name = Object.keys(TYPES).find(
+    (type) => type.toLowerCase() === column.data_type.toLowerCase(),
+  );
+  if (!name) {
+    return TYPES.NVarChar(MAX);
+  }
+
+  const type = (TYPES as Record<string, (...args: number[]) => ISqlType>)[name];
+  switch (name) {
+    case 'VarChar':
+    case 'NVarChar':
+    case 'VarBinary':
+    case 'Char':
+    case 'NChar':
+      // the length of the MAX types is reported as -1
+      return type(
+        column.character_maximum_length === -1 ? MAX : Number(column.character_maximum_length),
+      );
+    case 'Decimal':
+    case 'Numeric':
+      return type(Number(column.numeric_precision), Number(column.numeric_scale));
+    case 'DateTime2':
+    case 'DateTimeOffset':
+    case 'Time':
+      return type(Number(column.datetime_precision));
+    default:
+      return type();
+  }
+}
+
+// such as NO_ACTION or SET_NULL
+function parseReferentialAction(action: string): ForeignKeyAction {
+  return <ForeignKeyAction>action.replace(/_/g, ' ');
+}
+
+/**
+ * Positional parameters are bound as @p1, @p2, ... while named parameters
+ * are bound with their own name, with or without the leading "@".
+ */
+function bindParameters(request: Request, params?: QueryParams): void {
+  if (!params) {
+    return;
+  }
+
+  if (Array.isArray(params)) {
+    params.forEach((value, idx) => request.input(`p${idx + 1}`, value));
+    return;
+  }
+
+  Object.keys(params).forEach((name) => request.input(name.replace(/^@/, ''), params[name]));
+}
+
+/**
+ * Converts each statement of the showplan XML into a plan tree built from
+ * its relational operators (RelOp elements).
+ */
+function parseShowPlan(xml: string): ExplainPlanNode[] {
+  return findXmlElements(parseXml(xml), 'StmtSimple').map((statement) => ({
+    operation: statement.attributes.StatementType || 'Statement',
+    estimatedRows: toOptionalNumber(statement.attributes.StatementEstRows),
+    cost: toOptionalNumber(statement.attributes.StatementSubTreeCost),
+    children: findXmlElements(statement, 'RelOp').map(parseRelOp),
+  }));
+}
+
+function parseRelOp(relOp: XmlElement): ExplainPlanNode {
+  const [table] = findXmlElements(relOp, 'Object');
+  const counters = findXmlElements(relOp, 'RunTimeCountersPerThread');
+
+  return {
+    operation: relOp.attributes.PhysicalOp,
+    relation: table?.attributes.Table?.replace(/^\[|\]$/g, ''),
+    estimatedRows: toOptionalNumber(relOp.attributes.EstimateRows),
+    actualRows: counters.length
+      ? counters.reduce((total, counter) => total + Number(counter.attributes.ActualRows), 0)
+      : undefined,
+    cost: toOptionalNumber(relOp.attributes.EstimatedTotalSubtreeCost),
+    children: findXmlElements(relOp, 'RelOp').map(parseRelOp),
+  };
+}
+
+function toOptionalNumber(value?: string): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+interface XmlElement {
+  name: string;
+  attributes: { [name: string]: string };
+  children: XmlElement[];
+}
+
+/**
+ * Minimal XML reader for the showplan documents, keeping only the elements
+ * and their attributes.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const parents = [root];
+  const tags = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*"[^"]*")*)\s*(\/?)>/g;
+
+  let matched;
+  while ((matched = tags.exec(xml))) {
+    const [, closing, name, attributes, selfClosing] = matched;
+
+    if (closing) {
+      parents.pop();
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [] };
+    const attribute = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+    let matchedAttribute;
+    while ((matchedAttribute = attribute.exec(attributes))) {
+      element.attributes[matchedAttribute[1]] = decodeXmlEntities(matchedAttribute[2]);
+    }
+
+    parents[parents.length - 1].children.push(element);
+    if (!selfClosing) {
+      parents.push(element);
+    }
+  }
+
+  return root;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Finds the nearest descendants with the given name, without looking into
+ * the matched elements nor into nested relational operators.
+ */
+function findXmlElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.reduce<XmlElement[]>((found, child) => {
+    if (child.name === name) {
+      return found.concat(child);
+    }
+    if (child.name === 'RelOp') {
+      return found;
+    }
+    return found.concat(findXmlElements(child, name));
+  }, []);
+}
+
+function parseFields(columns: IColumnMetadata): ResultField[] {
+  return Object.values(columns)
+    .sort((a, b) => a.index - b.index)
+    .map((column) => {
+      const { declaration } = column.type as { declaration?: string };
+      const dataType = declaration || 'unknown';
+      const category = getTypeCategory(dataType);
+      const hasPrecision = ['decimal', 'numeric'].includes(dataType);
+
+      return {
+        name: column.name,
+        dataType,
+        category,
+        nullable: column.nullable,
+        precision: hasPrecision ? column.precision : undefined,
+        scale: hasPrecision ? column.scale : undefined,
+      };
+    });
+}
+
 function parseRowQueryResult(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data: IRecordSet<any> | [],
   affectedRows: number | undefined,
   command: string,
+  messages: QueryMessage[],
 ): QueryRowResult {
   // Fallback in case the identifier could not reconize the command
   const isSelect = !!(data.length || !affectedRows);
@@ -586,9 +1394,37 @@ function parseRowQueryResult(
   return {
     command: command || <string>(isSelect && 'SELECT'),
     rows: data,
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-    fields: Object.keys(data[0] || {}).map((name) => ({ name })),
+    // The recordset keeps the columns metadata even when it has no rows
+    fields: parseFields((data as IRecordSet<unknown>).columns || {}),
     rowCount: data.length,
     affectedRows,
+    messages,
   };
 }
+
+/**
+ * Collects the PRINT output and informational messages sent while running the request.
+ * The line reported by the server is used to find the statement which raised the message.
+ */
+function collectMessages(request: Request, queryText: string): QueryMessage[] {
+  const statementLines = identifyCommands(queryText).map(
+    ({ start }) => queryText.slice(0, start).split('\n').length,
+  );
+
+  const messages: QueryMessage[] = [];
+  request.on('info', (info: { message: string; number: number; lineNumber?: number }) => {
+    const { lineNumber } = info;
+    const statementIndex = lineNumber
+      ? statementLines.filter((line) => line <= lineNumber).length - 1
+      : -1;
+
+    messages.push({
+      severity: 'info',
+      text: info.message,
+      code: info.number,
+      statementIndex: statementIndex >= 0 ? statementIndex : undefined,
+    });
+  });
+
+  return messages;
+}
@@ -1,14 +1,70 @@
+import { runWithSignal } from './abort';
 import connectTunnel from './tunnel';
 import { adapterFactory } from './adapters';
+import { CanceledByUserError, DangerousStatementError, ReadOnlyViolationError } from './errors';
 import createLogger from './logger';
+import { runMiddleware } from './middleware';
+import { isNamedParams, translateParameters } from './parameters';
+import { executeFile, runScript } from './script';
+import { Session } from './session';
+import { runTransaction } from './transaction';
+import { findDangerousStatements, findWriteStatements } from './utils';
 
 import type { AddressInfo } from 'net';
 import type { DatabaseFilter, SchemaFilter } from './filters';
+import type {
+  ExecuteFileOptions,
+  ExecuteFileResult,
+  ScriptOptions,
+  ScriptStatementOutcome,
+} from './script';
 import type { Server } from './server';
-import type { AbstractAdapter, AdapterVersion, QueryRowResult } from './adapters/abstract_adapter';
+import type { Transaction } from './transaction';
+import type {
+  AbstractAdapter,
+  AdapterQueryOptions,
+  AdapterVersion,
+  BulkInsertOptions,
+  BulkInsertResult,
+  CassandraQueryOptions,
+  ExplainOptions,
+  ExplainPlanNode,
+  ForeignKeyResult,
+  ListTableColumnsResult,
+  QueryArgs,
+  QueryParams,
+  QueryReturn,
+  QueryRowResult,
+  QueryStreamOptions,
+  QueryStreamReturn,
+  TableConstraintResult,
+  TableIndexResult,
+  TableTriggerResult,
+  TransactionOptions,
+} from './adapters/abstract_adapter';
 
 const logger = createLogger('db');
 
+export interface AbortOptions {
+  /**
+   * Aborts the queries executed by the call, which fails with a CanceledByUserError.
+   */
+  signal?: AbortSignal;
+}
+
+export interface QueryOptions extends AbortOptions, CassandraQueryOptions {
+  /**
+   * Confirms the statements which may destroy data can be executed, for
+   * servers requiring them to be confirmed.
+   */
+  confirmDangerous?: boolean;
+  /**
+   * Milliseconds after which the query is aborted, overriding the server `queryTimeout`.
+   * Zero disables the timeout.
+   */
+  timeout?: number;
+}
+
 const DEFAULT_LIMIT = 1000;
 let selectLimit: number | null = null;
 
@@ -17,6 +73,7 @@ export class Database {
   database: string | undefined;
   connecting = false;
   connection: null | AbstractAdapter = null;
+  sessions: Session[] = [];
 
   constructor(server: Server, database?: string) {
     this.server = server;
@@ -43,7 +100,7 @@ export class Database {
     }
   }
 
-  async connect(): Promise<void> {
+  async connect(options: AbortOptions = {}): Promise<void> {
     /* eslint no-param-reassign: 0 */
     if (this.connecting) {
       throw new Error(
@@ -73,7 +130,10 @@ export class Database {
 
       const adapter = adapterFactory(this.server.config.adapter, this.server, this);
 
-      await Promise.all([adapter.connect(), this.handleSSHError()]);
+      await Promise.all([
+        runWithSignal(options.signal, () => adapter.connect()),
+        this.handleSSHError(),
+      ]);
 
       this.connection = adapter;
     } catch (err) {
@@ -88,6 +148,11 @@ export class Database {
   disconnect(): void {
     this.connecting = false;
 
+    // sessions hold connections out of the adapter pool, so they are released first
+    this.sessions.forEach((session) => {
+      session.close().catch((err) => logger().error('failed closing session %j', err));
+    });
+
     if (this.connection) {
       void this.connection.disconnect();
       this.connection = null;
@@ -101,28 +166,33 @@ export class Database {
     return (<AbstractAdapter>this.connection).getVersion();
   }
 
-  listDatabases(filter?: DatabaseFilter): Promise<string[]> {
+  listDatabases(filter?: DatabaseFilter, options: AbortOptions = {}): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listDatabases(filter);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listDatabases(filter));
   }
 
-  listSchemas(filter?: SchemaFilter): Promise<string[]> {
+  listSchemas(filter?: SchemaFilter, options: AbortOptions = {}): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listSchemas(filter);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listSchemas(filter));
   }
 
-  listTables(filter?: SchemaFilter): Promise<{ name: string }[]> {
+  listTables(filter?: SchemaFilter, options: AbortOptions = {}): Promise<{ name: string }[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listTables(filter);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listTables(filter));
   }
 
-  listViews(filter?: SchemaFilter): Promise<{ name: string }[]> {
+  listViews(filter?: SchemaFilter, options: AbortOptions = {}): Promise<{ name: string }[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listViews(filter);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listViews(filter));
   }
 
   listRoutines(
     filter?: SchemaFilter,
+    options: AbortOptions = {},
   ): Promise<
     {
       schema?: string;
@@ -131,40 +201,66 @@ export class Database {
     }[]
   > {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listRoutines(filter);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listRoutines(filter));
   }
 
   listTableColumns(
     table: string,
     schema?: string,
-  ): Promise<
-    {
-      columnName: string;
-      dataType: string;
-    }[]
-  > {
+    options: AbortOptions = {},
+  ): Promise<ListTableColumnsResult[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listTableColumns(table, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listTableColumns(table, schema));
   }
 
-  listTableTriggers(table: string, schema?: string): Promise<string[]> {
+  listTableTriggers(table: string, schema?: string, options: AbortOptions = {}): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listTableTriggers(table, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listTableTriggers(table, schema));
   }
 
-  listTableIndexes(table: string, schema?: string): Promise<string[]> {
+  describeTableTriggers(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<TableTriggerResult[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).listTableIndexes(table, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.describeTableTriggers(table, schema));
   }
 
-  getTableReferences(table: string, schema?: string): Promise<string[]> {
+  listTableIndexes(table: string, schema?: string, options: AbortOptions = {}): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).getTableReferences(table, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listTableIndexes(table, schema));
+  }
+
+  describeTableIndexes(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<TableIndexResult[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.describeTableIndexes(table, schema));
+  }
+
+  getTableReferences(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.getTableReferences(table, schema));
   }
 
   getTableKeys(
     table: string,
     schema?: string,
+    options: AbortOptions = {},
   ): Promise<
     {
       columnName: string;
@@ -174,22 +270,361 @@ export class Database {
     }[]
   > {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).getTableKeys(table, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.getTableKeys(table, schema));
+  }
+
+  listForeignKeys(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<ForeignKeyResult[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listForeignKeys(table, schema));
+  }
+
+  listTableConstraints(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<TableConstraintResult[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.listTableConstraints(table, schema));
   }
 
+  /**
+   * Positional parameters are bound to the adapter native placeholders: `$1` on PostgreSQL,
+   * `@p1` on SQL Server and `?` on the other adapters. Named parameters can be used with
+   * the `:name`, `@name` or `$name` placeholders on any adapter.
+   */
   query(
     queryText: string,
+    params?: QueryParams,
+    options?: QueryOptions,
   ): {
     execute: () => Promise<QueryRowResult[]>;
     cancel: () => void;
   } {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).query(queryText);
+    const adapter = <AbstractAdapter>this.connection;
+    return this.wrapQuery(
+      queryText,
+      params,
+      (args) => adapter.query(args.query, args.params, this.getAdapterQueryOptions(options)),
+      options,
+    );
+  }
+
+  executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options?: QueryOptions,
+  ): Promise<QueryRowResult[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    return this.runMiddleware(
+      { query: queryText, params, internal: false },
+      (args) => {
+        const bound = this.bindParameters(args.query, args.params);
+        return adapter.executeQuery(
+          bound.query,
+          bound.params,
+          this.getAdapterQueryOptions(options),
+        );
+      },
+      options,
+    );
+  }
+
+  /**
+   * Runs the query through the middlewares registered with `Server.use`.
+   */
+  runMiddleware<T>(
+    queryArgs: QueryArgs,
+    run: (queryArgs: QueryArgs) => Promise<T>,
+    options: QueryOptions = {},
+  ): Promise<T> {
+    const context = {
+      query: queryArgs.query,
+      params: queryArgs.params,
+      adapter: this.server.config.adapter,
+      database: this.database,
+      internal: queryArgs.internal !== false,
+    };
+
+    return runWithSignal(options.signal, () =>
+      runMiddleware(this.server.middlewares, context, ({ query, params }) => {
+        // checked once the middlewares have run, as they may have rewritten the query
+        if (!context.internal) {
+          this.checkReadOnly(query);
+          this.checkDangerous(query, options);
+        }
+
+        return run({ ...queryArgs, query, params });
+      }),
+    );
+  }
+
+  /**
+   * The query timeout defaults to the one of the server.
+   */
+  getAdapterQueryOptions(options: QueryOptions = {}): AdapterQueryOptions {
+    const { consistency, serialConsistency, fetchSize, pageState, traceQuery } = options;
+    return {
+      timeout: options.timeout ?? this.server.config.queryTimeout,
+      consistency,
+      serialConsistency,
+      fetchSize,
+      pageState,
+      traceQuery,
+    };
+  }
+
+  /**
+   * Rejects the statements which may write data when the server is configured as read-only.
+   */
+  checkReadOnly(queryText: string): void {
+    if (!this.server.config.readOnly) {
+      return;
+    }
+
+    const statements = findWriteStatements(queryText);
+    if (statements.length) {
+      throw new ReadOnlyViolationError(statements);
+    }
+  }
+
+  /**
+   * Applies the server policy for the statements which may destroy data.
+   */
+  checkDangerous(queryText: string, options: QueryOptions = {}): void {
+    const policy = this.server.config.dangerousStatements || 'allow';
+    if (policy === 'allow' || (policy === 'confirm' && options.confirmDangerous)) {
+      return;
+    }
+
+    const statements = findDangerousStatements(
+      queryText,
+      (<AbstractAdapter>this.connection).createStatementSplitter().dialect,
+    );
+    if (statements.length) {
+      throw new DangerousStatementError(statements);
+    }
+  }
+
+  /**
+   * Creates the user query once the middlewares have run, so they see the
+   * query as written by the user before its parameters are bound.
+   */
+  wrapQuery(
+    queryText: string,
+    params: QueryParams | undefined,
+    create: (args: QueryArgs) => QueryReturn,
+    options?: QueryOptions,
+  ): QueryReturn {
+    let query: QueryReturn | null = null;
+
+    return {
+      execute: () =>
+        this.runMiddleware(
+          { query: queryText, params, internal: false },
+          (args) => {
+            query = create(this.bindParameters(args.query, args.params));
+            return query.execute();
+          },
+          options,
+        ),
+      cancel: () => {
+        if (!query) {
+          throw new Error('Query not ready to be canceled');
+        }
+
+        return query.cancel();
+      },
+    };
+  }
+
+  /**
+   * Rewrites named placeholders into the adapter native positional placeholders.
+   */
+  bindParameters(queryText: string, params?: QueryParams): { query: string; params?: QueryParams } {
+    if (!isNamedParams(params)) {
+      return { query: queryText, params };
+    }
+
+    const adapter = <AbstractAdapter>this.connection;
+    // the dialect of the splitter tells how the strings of the adapter are escaped
+    const translated = translateParameters(
+      queryText,
+      params,
+      (index) => adapter.getParameterPlaceholder(index),
+      adapter.createStatementSplitter().dialect,
+    );
+
+    // Nothing has been translated, so let the driver handle the named parameters by itself
+    if (!translated.params.length) {
+      return { query: queryText, params };
+    }
+
+    return translated;
+  }
+
+  /**
+   * Returns the query execution plan. Analyzing the plan executes the query, so it
+   * goes through the middlewares and the checks of the user queries.
+   */
+  explain(
+    queryText: string,
+    options: ExplainOptions & Pick<QueryOptions, 'signal' | 'confirmDangerous'> = {},
+  ): Promise<ExplainPlanNode[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    if (options.analyze) {
+      return this.runMiddleware(
+        { query: queryText, internal: false },
+        (args) => adapter.explain(args.query, options),
+        options,
+      );
+    }
+    return runWithSignal(options.signal, () => adapter.explain(queryText, options));
   }
 
-  executeQuery(queryText: string): Promise<QueryRowResult[]> {
+  /**
+   * Opens a session owning a dedicated connection, which keeps the session state
+   * between queries until the session is closed or the server is ended.
+   */
+  async openSession(options: AbortOptions = {}): Promise<Session> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).executeQuery(queryText);
+    const adapter = <AbstractAdapter>this.connection;
+    const connection = await runWithSignal(options.signal, () => adapter.openConnection());
+    const session = new Session(this, connection);
+    this.sessions.push(session);
+    return session;
+  }
+
+  removeSession(session: Session): void {
+    this.sessions = this.sessions.filter((item) => item !== session);
+  }
+
+  /**
+   * Runs the callback within a transaction pinned to a single connection. The transaction
+   * is committed once the callback resolves and rolled back if it throws.
+   */
+  transaction<T>(
+    run: (tx: Transaction) => Promise<T>,
+    options: TransactionOptions & AbortOptions = {},
+  ): Promise<T> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+
+    return runWithSignal(options.signal, async () => {
+      const connection = await adapter.openConnection();
+
+      try {
+        return await runTransaction(this, connection, run, options);
+      } finally {
+        await connection.release();
+      }
+    });
+  }
+
+  /**
+   * Executes the statements of the script one by one on the same connection,
+   * returning the outcome of each statement instead of failing the whole script.
+   * SQL Server scripts are split in the batches separated by GO.
+   */
+  runScript(queryText: string, options: ScriptOptions = {}): Promise<ScriptStatementOutcome[]> {
+    this.checkIsConnected();
+    // split the same way as the files executed by executeFile
+    const splitter = (<AbstractAdapter>this.connection).createStatementSplitter();
+    const statements = [...splitter.push(queryText), ...splitter.end()];
+
+    return runWithSignal(options.signal, async () => {
+      const session = await this.openSession();
+
+      try {
+        return await runScript(session, statements, options);
+      } finally {
+        await session.close();
+      }
+    });
+  }
+
+  /**
+   * Executes the statements of a SQL file one by one on the same connection. The file
+   * is split while it is read, so large dumps are never entirely loaded in memory.
+   */
+  executeFile(filename: string, options: ExecuteFileOptions = {}): Promise<ExecuteFileResult> {
+    this.checkIsConnected();
+    const splitter = (<AbstractAdapter>this.connection).createStatementSplitter();
+
+    return runWithSignal(options.signal, async () => {
+      const session = await this.openSession();
+
+      try {
+        return await executeFile(session, splitter, filename, options);
+      } finally {
+        await session.close();
+      }
+    });
+  }
+
+  /**
+   * Inserts the rows, given as the values of the columns in the same order, using
+   * the fastest way of loading data supported by the database.
+   */
+  bulkInsert(
+    table: string,
+    columns: string[],
+    rows: unknown[][],
+    options: BulkInsertOptions & AbortOptions = {},
+  ): Promise<BulkInsertResult> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    this.checkReadOnly(
+      `INSERT INTO ${adapter.getBulkInsertTarget(table, columns, options.schema)}`,
+    );
+
+    if (!rows.length) {
+      return Promise.resolve({ rowsInserted: 0 });
+    }
+
+    return runWithSignal(options.signal, () =>
+      adapter.bulkInsert(table, columns, rows, { schema: options.schema }),
+    );
+  }
+
+  /**
+   * Executes a single statement, yielding its rows in batches as they are read
+   * from the database instead of buffering the whole result in memory. The statement
+   * is checked against the read-only and dangerous statements policies, but it skips
+   * the middlewares, which are given whole results, and the query timeout, since the
+   * rows are read at the pace of the caller. Abort it with the signal instead.
+   */
+  stream(queryText: string, options: QueryStreamOptions & AbortOptions = {}): QueryStreamReturn {
+    this.checkIsConnected();
+    this.checkReadOnly(queryText);
+    this.checkDangerous(queryText);
+    if (options.signal?.aborted) {
+      throw new CanceledByUserError();
+    }
+
+    const stream = (<AbstractAdapter>this.connection).stream(queryText, options);
+
+    // the rows are read while iterating, so the stream is canceled instead of its queries
+    options.signal?.addEventListener(
+      'abort',
+      () => {
+        Promise.resolve()
+          .then(() => stream.cancel())
+          .catch((err) => logger().debug('failed canceling the aborted stream %j', err));
+      },
+      { once: true },
+    );
+
+    return stream;
   }
 
   getQuerySelectTop(table: string, schema?: string, limit?: number): Promise<string> {
@@ -203,13 +638,22 @@ export class Database {
     );
   }
 
-  getTableCreateScript(table: string, schema?: string): Promise<string[]> {
+  getTableCreateScript(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).getTableCreateScript(table, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.getTableCreateScript(table, schema));
   }
 
-  async getTableSelectScript(table: string, schema?: string): Promise<string> {
-    const columnNames = await this.getTableColumnNames(table, schema);
+  async getTableSelectScript(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string> {
+    const columnNames = await this.getTableColumnNames(table, schema, options);
     const schemaSelection = this.resolveSchema(schema);
     return [
       `SELECT ${columnNames.map((name) => this.wrap(name)).join(', ')}`,
@@ -217,8 +661,12 @@ export class Database {
     ].join(' ');
   }
 
-  async getTableInsertScript(table: string, schema?: string): Promise<string> {
-    const columnNames = await this.getTableColumnNames(table, schema);
+  async getTableInsertScript(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string> {
+    const columnNames = await this.getTableColumnNames(table, schema, options);
     const schemaSelection = this.resolveSchema(schema);
     return [
       `INSERT INTO ${schemaSelection}${this.wrap(table)}`,
@@ -227,8 +675,12 @@ export class Database {
     ].join(' ');
   }
 
-  async getTableUpdateScript(table: string, schema?: string): Promise<string> {
-    const columnNames = await this.getTableColumnNames(table, schema);
+  async getTableUpdateScript(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string> {
+    const columnNames = await this.getTableColumnNames(table, schema, options);
     const setColumnForm = columnNames.map((col) => `${this.wrap(col)}=?`).join(', ');
     const schemaSelection = this.resolveSchema(schema);
     return [
@@ -245,23 +697,55 @@ export class Database {
     );
   }
 
-  getViewCreateScript(view: string, schema?: string): Promise<string[]> {
+  getViewCreateScript(
+    view: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).getViewCreateScript(view, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.getViewCreateScript(view, schema));
   }
 
-  getRoutineCreateScript(routine: string, type: string, schema?: string): Promise<string[]> {
+  getRoutineCreateScript(
+    routine: string,
+    type: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string[]> {
     this.checkIsConnected();
-    return (<AbstractAdapter>this.connection).getRoutineCreateScript(routine, type, schema);
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () =>
+      adapter.getRoutineCreateScript(routine, type, schema),
+    );
   }
 
-  truncateAllTables(schema?: string): Promise<void> {
-    return (<AbstractAdapter>this.connection).truncateAllTables(schema);
+  getTriggerCreateScript(
+    trigger: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string[]> {
+    this.checkIsConnected();
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.getTriggerCreateScript(trigger, schema));
   }
 
-  async getTableColumnNames(table: string, schema?: string): Promise<string[]> {
+  truncateAllTables(schema?: string, options: AbortOptions = {}): Promise<void> {
     this.checkIsConnected();
-    const columns = await (<AbstractAdapter>this.connection).listTableColumns(table, schema);
+    if (this.server.config.readOnly) {
+      throw new ReadOnlyViolationError([`truncate all the tables of ${schema || 'the database'}`]);
+    }
+
+    const adapter = <AbstractAdapter>this.connection;
+    return runWithSignal(options.signal, () => adapter.truncateAllTables(schema));
+  }
+
+  async getTableColumnNames(
+    table: string,
+    schema?: string,
+    options: AbortOptions = {},
+  ): Promise<string[]> {
+    const columns = await this.listTableColumns(table, schema, options);
     return columns.map((column) => column.columnName);
   }
 
@@ -0,0 +1,68 @@
+/**
+ * Client directives are handled by the database command line clients instead of
+ * the server, so scripts written for those clients are processed before execution.
+ */
+
+import { BATCH_SEPARATOR, StatementSplitter, isLineStart, skipLiteral } from './splitter';
+
+export interface Batch {
+  text: string;
+  /**
+   * Number of times the batch is executed, given by `GO n`.
+   */
+  count: number;
+}
+
+export function hasDelimiterDirective(queryText: string): boolean {
+  return /^[ \t]*DELIMITER[ \t]+\S+/im.test(queryText);
+}
+
+/**
+ * Processes the `DELIMITER` directives of the MySQL client, returning the
+ * statements of the script without their delimiter.
+ */
+export function splitDelimiterStatements(queryText: string): string[] {
+  const splitter = new StatementSplitter('mysql');
+  return [...splitter.push(queryText), ...splitter.end()];
+}
+
+export function hasBatchSeparator(queryText: string): boolean {
+  return /^[ \t]*GO(?:[ \t]+\d+)?[ \t]*(?:--.*)?$/im.test(queryText);
+}
+
+/**
+ * Splits the script in the batches separated by the `GO` lines of the SQL Server tools.
+ */
+export function splitBatches(queryText: string): Batch[] {
+  const batches: Batch[] = [];
+  let start = 0;
+  let position = 0;
+
+  const push = (end: number, count: number) => {
+    const text = queryText.slice(start, end).trim();
+    if (text) {
+      batches.push({ text, count });
+    }
+  };
+
+  while (position < queryText.length) {
+    if (isLineStart(queryText, position)) {
+      BATCH_SEPARATOR.lastIndex = position;
+      const match = BATCH_SEPARATOR.exec(queryText);
+      if (match) {
+        push(position, match[1] ? parseInt(match[1], 10) : 1);
+        position = start = BATCH_SEPARATOR.lastIndex;
+        continue;
+      }
+    }
+
+    const end = skipLiteral(queryText, position, 'mssql');
+    if (end === -1) {
+      break;
+    }
+    position = end > position ? end : position + 1;
+  }
+
+  push(queryText.length, 1);
+  return batches;
+}
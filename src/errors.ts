@@ -11,3 +11,53 @@ export class CanceledByUserError extends Error {
     this.sqlectronError = this.code;
   }
 }
+
+export class ReadOnlyViolationError extends Error {
+  code: string;
+  sqlectronError: string;
+  statements: string[];
+
+  constructor(statements: string[]) {
+    super(
+      `The server is configured as read-only, so only statements reading data can be executed. Rejected statements: ${statements.join(
+        '; ',
+      )}`,
+    );
+    this.name = 'ReadOnlyViolationError';
+    this.code = 'READ_ONLY_VIOLATION';
+    this.sqlectronError = this.code;
+    this.statements = statements;
+  }
+}
+
+export class DangerousStatementError extends Error {
+  code: string;
+  sqlectronError: string;
+  statements: string[];
+
+  constructor(statements: string[]) {
+    super(
+      `The query has statements which may destroy data and must be confirmed to be executed: ${statements.join(
+        '; ',
+      )}`,
+    );
+    this.name = 'DangerousStatementError';
+    this.code = 'DANGEROUS_STATEMENT';
+    this.sqlectronError = this.code;
+    this.statements = statements;
+  }
+}
+
+export class QueryTimeoutError extends Error {
+  code: string;
+  sqlectronError: string;
+  timeout: number;
+
+  constructor(timeout: number) {
+    super(`The query has been aborted after exceeding the timeout of ${timeout}ms.`);
+    this.name = 'QueryTimeoutError';
+    this.code = 'QUERY_TIMEOUT';
+    this.sqlectronError = this.code;
+    this.timeout = timeout;
+  }
+}
@@ -2,10 +2,63 @@ export { setSelectLimit, clearSelectLimit } from './database';
 export { ADAPTERS, ADAPTERS as CLIENTS } from './adapters';
 export { createServer } from './server';
 export { setLogger } from './logger';
+export { extractParameters } from './parameters';
+export {
+  CanceledByUserError,
+  DangerousStatementError,
+  QueryTimeoutError,
+  ReadOnlyViolationError,
+} from './errors';
 
 // Export types
-export type { Database } from './database';
+export type { AbortOptions, Database, QueryOptions } from './database';
 export type { Adapter } from './adapters';
-export type { QueryRowResult } from './adapters/abstract_adapter';
+export type { Session } from './session';
+export type { Transaction } from './transaction';
+export type {
+  BulkInsertOptions,
+  BulkInsertResult,
+  CassandraQueryOptions,
+  ConsistencyLevel,
+  ExplainOptions,
+  ExplainPlanNode,
+  ForeignKeyAction,
+  ForeignKeyResult,
+  IsolationLevel,
+  ListTableColumnsResult,
+  QueryMessage,
+  QueryMessageSeverity,
+  QueryParams,
+  QueryRowResult,
+  QueryStreamBatch,
+  QueryStreamOptions,
+  QueryStreamReturn,
+  QueryTraceEvent,
+  ResultField,
+  ResultFieldCategory,
+  TableConstraintResult,
+  TableConstraintType,
+  TableIndexColumn,
+  TableIndexResult,
+  TableTriggerResult,
+  TransactionOptions,
+  TriggerEvent,
+  TriggerTiming,
+} from './adapters/abstract_adapter';
 export type { DatabaseFilter, SchemaFilter } from './filters';
+export type {
+  AfterQueryHook,
+  BeforeQueryHook,
+  QueryContext,
+  QueryErrorHook,
+  QueryMiddleware,
+} from './middleware';
+export type { NormalizeOptions } from './normalize';
+export type {
+  ExecuteFileOptions,
+  ExecuteFileProgress,
+  ExecuteFileResult,
+  ScriptOptions,
+  ScriptStatementOutcome,
+} from './script';
 export type { Server, LegacyServerConfig } from './server';
@@ -0,0 +1,93 @@
+import type { QueryParams } from './adapters/abstract_adapter';
+
+export interface QueryContext {
+  query: string;
+  params?: QueryParams;
+  adapter: string;
+  database?: string;
+  /**
+   * Set for the queries issued by the library itself, such as the metadata
+   * queries behind `listTables`, instead of the queries sent by the user.
+   */
+  internal: boolean;
+}
+
+/**
+ * Called before executing the query. Returning a query or params replaces them
+ * for the next middlewares and the execution, and throwing rejects the query.
+ */
+export type BeforeQueryHook = (
+  context: QueryContext,
+) =>
+  | void
+  | Partial<Pick<QueryContext, 'query' | 'params'>>
+  | Promise<void | Partial<Pick<QueryContext, 'query' | 'params'>>>;
+
+/**
+ * Results are the adapter query results for user queries and the raw driver
+ * results for internal queries.
+ */
+export type AfterQueryHook = (
+  context: QueryContext,
+  results: unknown,
+  duration: number,
+) => void | Promise<void>;
+
+export type QueryErrorHook = (
+  context: QueryContext,
+  error: unknown,
+  duration: number,
+) => void | Promise<void>;
+
+export interface QueryMiddleware {
+  beforeQuery?: BeforeQueryHook;
+  afterQuery?: AfterQueryHook;
+  onError?: QueryErrorHook;
+}
+
+/**
+ * Runs the query through the middlewares in the order they have been registered.
+ * Errors thrown by the query are rethrown once every `onError` hook has been called.
+ */
+export async function runMiddleware<T>(
+  middlewares: QueryMiddleware[],
+  context: QueryContext,
+  run: (context: QueryContext) => Promise<T>,
+): Promise<T> {
+  if (!middlewares.length) {
+    return run(context);
+  }
+
+  let current = context;
+  for (const { beforeQuery } of middlewares) {
+    if (beforeQuery) {
+      const changes = await beforeQuery(current);
+      if (changes) {
+        current = { ...current, ...changes };
+      }
+    }
+  }
+
+  const start = Date.now();
+  let results: T;
+  try {
+    results = await run(current);
+  } catch (err) {
+    const duration = Date.now() - start;
+    for (const { onError } of middlewares) {
+      if (onError) {
+        await onError(current, err, duration);
+      }
+    }
+    throw err;
+  }
+
+  const duration = Date.now() - start;
+  for (const { afterQuery } of middlewares) {
+    if (afterQuery) {
+      await afterQuery(current, results, duration);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,154 @@
+import type { ResultField } from './adapters/abstract_adapter';
+
+/**
+ * How the values are returned, regardless of the representation used by each driver.
+ * Values of kinds without an option are returned as given by the driver.
+ */
+export interface NormalizeOptions {
+  /**
+   * "string" converts dates to ISO 8601 strings and "date" parses them into Date objects.
+   * The date strings of the drivers without a time zone are read as UTC, as SQL Server
+   * dates are, so the same value is returned whatever the database.
+   */
+  dates?: 'string' | 'date';
+  /**
+   * Applies to 64-bit integers, which may not fit a JS number.
+   */
+  bigints?: 'string' | 'bigint' | 'number';
+  binary?: 'buffer' | 'hex' | 'base64';
+  json?: 'parsed' | 'text';
+}
+
+const BIGINT_TYPES = /^(bigint|int8|longlong|bigserial|serial8|counter|varint)\b/i;
+// such as "2016-10-25", "2016-10-25 10:00:00.123" or "2016-10-25 10:00:00+02"
+const DATE_STRING = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+export function normalizeRows(
+  rows: unknown[],
+  fields: ResultField[],
+  options: NormalizeOptions,
+): unknown[] {
+  if (!fields.length) {
+    return rows;
+  }
+
+  return rows.map((row) => {
+    const normalized: { [name: string]: unknown } = { ...(row as { [name: string]: unknown }) };
+    fields.forEach((field) => {
+      if (field.name in normalized) {
+        normalized[field.name] = normalizeValue(normalized[field.name], field, options);
+      }
+    });
+    return normalized;
+  });
+}
+
+export function normalizeValue(
+  value: unknown,
+  field: ResultField,
+  options: NormalizeOptions,
+): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (options.dates && field.category === 'date') {
+    return normalizeDate(value, options.dates);
+  }
+
+  if (options.bigints && (typeof value === 'bigint' || BIGINT_TYPES.test(field.dataType))) {
+    return normalizeBigint(value, options.bigints);
+  }
+
+  if (options.binary && Buffer.isBuffer(value)) {
+    return options.binary === 'buffer' ? value : value.toString(options.binary);
+  }
+
+  if (options.json && field.category === 'json') {
+    return normalizeJSON(value, options.json);
+  }
+
+  return value;
+}
+
+function normalizeDate(value: unknown, format: 'string' | 'date'): unknown {
+  const date = typeof value === 'string' ? parseDateString(value) : value;
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    return value;
+  }
+
+  return format === 'string' ? date.toISOString() : date;
+}
+
+/**
+ * Reads the date strings returned by the drivers, which `new Date()` would read in
+ * the local time zone of the machine when they have none.
+ */
+function parseDateString(value: string): Date | undefined {
+  const matched = DATE_STRING.exec(value.trim());
+  if (!matched) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, fraction, zone] = matched;
+  const date = new Date(
+    Date.UTC(
+      2000,
+      Number(month) - 1,
+      Number(day),
+      Number(hours || 0),
+      Number(minutes || 0),
+      Number(seconds || 0),
+      Number((fraction || '0').padEnd(3, '0').slice(0, 3)),
+    ),
+  );
+  // Date.UTC reads the years before 100 as 19xx
+  date.setUTCFullYear(Number(year));
+
+  if (zone && zone.toUpperCase() !== 'Z') {
+    const offset = /^([+-])(\d{2}):?(\d{2})?$/.exec(zone);
+    if (offset) {
+      const sign = offset[1] === '-' ? -1 : 1;
+      const total = Number(offset[2]) * 60 + Number(offset[3] || 0);
+      date.setTime(date.getTime() - sign * total * 60000);
+    }
+  }
+
+  return date;
+}
+
+/**
+ * Drivers return 64-bit integers as numbers, strings, bigints or objects
+ * (e.g. the Cassandra Long), which all have a lossless string representation.
+ */
+function normalizeBigint(value: unknown, format: 'string' | 'bigint' | 'number'): unknown {
+  const text = String(value);
+  if (!/^-?\d+$/.test(text)) {
+    return value;
+  }
+
+  switch (format) {
+    case 'bigint':
+      return BigInt(text);
+    case 'number':
+      return Number(text);
+    default:
+      return text;
+  }
+}
+
+function normalizeJSON(value: unknown, format: 'parsed' | 'text'): unknown {
+  if (format === 'text') {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    return value;
+  }
+}
@@ -0,0 +1,145 @@
+import type { QueryParams } from './adapters/abstract_adapter';
+import type { SplitterDialect } from './splitter';
+
+const PLACEHOLDER_PREFIXES = [':', '@', '$'];
+const DOLLAR_QUOTE_TAG = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+interface Placeholder {
+  name: string;
+  prefix: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lists the names of the `:name`, `@name` and `$name` placeholders used in the query,
+ * in the order they first appear. Placeholders inside strings, quoted identifiers,
+ * comments and dollar-quoted bodies are ignored, as well as `::` casts and `@@` variables.
+ * The strings of the mysql dialect may escape their quotes with a backslash.
+ */
+export function extractParameters(query: string, dialect: SplitterDialect = 'generic'): string[] {
+  const names: string[] = [];
+  findPlaceholders(query, dialect).forEach(({ name }) => {
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  });
+  return names;
+}
+
+/**
+ * Rewrites the named placeholders into the adapter native positional placeholders,
+ * returning the values in the order expected by the rewritten query.
+ *
+ * Adapters with numbered placeholders (e.g. `$1`) reuse the same placeholder for a
+ * name used more than once, while the others (e.g. `?`) repeat the value instead.
+ * Placeholders without a value in the given params are left untouched, so variables
+ * such as MySQL `@var` or SQL Server `@local` keep working.
+ */
+export function translateParameters(
+  query: string,
+  params: { [name: string]: unknown },
+  placeholder: (index: number) => string,
+  dialect: SplitterDialect = 'generic',
+): { query: string; params: unknown[] } {
+  const numbered = placeholder(0) !== placeholder(1);
+  const values: unknown[] = [];
+  const indexes: { [name: string]: number } = {};
+
+  let translated = '';
+  let position = 0;
+
+  findPlaceholders(query, dialect).forEach(({ name, prefix, start, end }) => {
+    let value: unknown;
+    if (name in params) {
+      value = params[name];
+    } else if (`${prefix}${name}` in params) {
+      value = params[`${prefix}${name}`];
+    } else {
+      return;
+    }
+
+    let index = indexes[name];
+    if (!numbered || index === undefined) {
+      index = values.push(value) - 1;
+      indexes[name] = index;
+    }
+
+    translated += query.substring(position, start) + placeholder(index);
+    position = end;
+  });
+
+  return { query: translated + query.substring(position), params: values };
+}
+
+export function isNamedParams(params?: QueryParams): params is { [name: string]: unknown } {
+  return !!params && !Array.isArray(params);
+}
+
+function findPlaceholders(query: string, dialect: SplitterDialect): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  let idx = 0;
+
+  while (idx < query.length) {
+    const char = query[idx];
+    const next = query[idx + 1];
+    const dollarTag = char === '$' ? DOLLAR_QUOTE_TAG.exec(query.substring(idx)) : null;
+
+    if (char === "'" || char === '"' || char === '`') {
+      idx = skipQuoted(query, idx, char, dialect === 'mysql' && char !== '`');
+    } else if (char === '-' && next === '-') {
+      idx = skipUntil(query, idx + 2, '\n');
+    } else if (char === '/' && next === '*') {
+      idx = skipUntil(query, idx + 2, '*/');
+    } else if (dollarTag) {
+      idx = skipUntil(query, idx + dollarTag[0].length, dollarTag[0]);
+    } else if (
+      PLACEHOLDER_PREFIXES.includes(char) &&
+      next !== char &&
+      !/[A-Za-z0-9_:@$]/.test(query[idx - 1] || '')
+    ) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.substring(idx + 1));
+      if (match) {
+        const end = idx + 1 + match[0].length;
+        placeholders.push({ name: match[0], prefix: char, start: idx, end });
+        idx = end;
+      } else {
+        idx++;
+      }
+    } else {
+      idx++;
+    }
+  }
+
+  return placeholders;
+}
+
+/**
+ * Returns the position right after the closing quote, considering a doubled
+ * quote, or a quote preceded by a backslash when supported, as an escaped quote.
+ */
+function skipQuoted(
+  query: string,
+  start: number,
+  quote: string,
+  backslashEscapes: boolean,
+): number {
+  let idx = start + 1;
+  while (idx < query.length) {
+    if (backslashEscapes && query[idx] === '\\') {
+      idx++;
+    } else if (query[idx] === quote) {
+      if (query[idx + 1] !== quote) {
+        return idx + 1;
+      }
+      idx++;
+    }
+    idx++;
+  }
+  return idx;
+}
+
+function skipUntil(query: string, start: number, terminator: string): number {
+  const idx = query.indexOf(terminator, start);
+  return idx === -1 ? query.length : idx + terminator.length;
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+
+import { resolveHomePathToAbsolute } from './utils';
+
+import type { QueryOptions } from './database';
+import type { Session } from './session';
+import type { StatementSplitter } from './splitter';
+import type { QueryRowResult } from './adapters/abstract_adapter';
+
+type StatementExecutor = Pick<Session, 'executeQuery'>;
+
+export interface ScriptOptions extends QueryOptions {
+  /**
+   * Whether to stop at the first statement failing or to execute the remaining ones.
+   * Defaults to "stop".
+   */
+  onError?: 'stop' | 'continue';
+  onProgress?: (outcome: ScriptStatementOutcome) => void;
+}
+
+/**
+ * Outcome of a single statement of the script, which has either the results
+ * or the error of the statement.
+ */
+export interface ScriptStatementOutcome {
+  index: number;
+  text: string;
+  duration: number;
+  results?: QueryRowResult[];
+  error?: Error;
+}
+
+export interface ExecuteFileOptions extends QueryOptions {
+  /**
+   * Whether to stop at the first statement failing or to execute the remaining ones.
+   * Defaults to "stop".
+   */
+  onError?: 'stop' | 'continue';
+  /**
+   * Executes the whole file within a transaction, which is rolled back at the first
+   * statement failing whatever the error policy.
+   */
+  transaction?: boolean;
+  onProgress?: (progress: ExecuteFileProgress) => void;
+}
+
+export interface ExecuteFileProgress {
+  bytesRead: number;
+  totalBytes: number;
+  statementsExecuted: number;
+  outcome: ScriptStatementOutcome;
+}
+
+/**
+ * The results of the statements are only given to the progress callback,
+ * so they are not all kept in memory while executing large files.
+ */
+export interface ExecuteFileResult {
+  statementsExecuted: number;
+  errors: ScriptStatementOutcome[];
+}
+
+/**
+ * Executes the statements one by one in the session, reporting the outcome of each
+ * statement. Statements after a failing one are not executed unless the error policy
+ * is "continue", so the outcomes only include the statements executed.
+ */
+export async function runScript(
+  session: Session,
+  statements: string[],
+  options: ScriptOptions = {},
+): Promise<ScriptStatementOutcome[]> {
+  const { onError = 'stop', onProgress, ...queryOptions } = options;
+  const outcomes: ScriptStatementOutcome[] = [];
+
+  for await (const outcome of executeStatements(session, statements, onError, queryOptions)) {
+    outcomes.push(outcome);
+    if (onProgress) {
+      onProgress(outcome);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Executes the statements of a file while it is being read, so only the statement
+ * being executed is kept in memory.
+ */
+export async function executeFile(
+  session: Session,
+  splitter: StatementSplitter,
+  filename: string,
+  options: ExecuteFileOptions = {},
+): Promise<ExecuteFileResult> {
+  const { onError = 'stop', transaction, onProgress, ...queryOptions } = options;
+  const filePath = path.resolve(resolveHomePathToAbsolute(filename));
+  const { size } = await fs.promises.stat(filePath);
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' });
+  const result: ExecuteFileResult = { statementsExecuted: 0, errors: [] };
+
+  const run = async (executor: StatementExecutor) => {
+    const statements = readStatements(stream, splitter);
+    for await (const outcome of executeStatements(executor, statements, onError, queryOptions)) {
+      result.statementsExecuted += 1;
+      if (outcome.error) {
+        result.errors.push(outcome);
+      }
+
+      if (onProgress) {
+        onProgress({
+          bytesRead: stream.bytesRead,
+          totalBytes: size,
+          statementsExecuted: result.statementsExecuted,
+          outcome,
+        });
+      }
+
+      if (outcome.error && transaction) {
+        throw outcome.error;
+      }
+    }
+  };
+
+  try {
+    if (transaction) {
+      await session.transaction(run);
+    } else {
+      await run(session);
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return result;
+}
+
+async function* executeStatements(
+  executor: StatementExecutor,
+  statements: Iterable<string> | AsyncIterable<string>,
+  onError: 'stop' | 'continue',
+  queryOptions: QueryOptions,
+): AsyncGenerator<ScriptStatementOutcome> {
+  let index = 0;
+  for await (const text of statements) {
+    const start = Date.now();
+    let outcome: ScriptStatementOutcome;
+    try {
+      const results = await executor.executeQuery(text, undefined, queryOptions);
+      outcome = { index, text, duration: Date.now() - start, results };
+    } catch (err) {
+      outcome = { index, text, duration: Date.now() - start, error: err as Error };
+    }
+
+    yield outcome;
+    if (outcome.error && onError === 'stop') {
+      return;
+    }
+    index += 1;
+  }
+}
+
+/**
+ * The stream is only read as the statements are executed.
+ */
+async function* readStatements(
+  stream: AsyncIterable<string>,
+  splitter: StatementSplitter,
+): AsyncGenerator<string, void, undefined> {
+  let first = true;
+  for await (const chunk of stream) {
+    // editors on Windows may start the file with a byte order mark
+    yield* splitter.push(first ? chunk.replace(/^\uFEFF/, '') : chunk);
+    first = false;
+  }
+  yield* splitter.end();
+}
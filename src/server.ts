@@ -2,6 +2,14 @@ import type { Server as NetServer } from 'net';
 import { Database } from './database';
 import { ADAPTERS } from './adapters';
 
+import type {
+  AfterQueryHook,
+  BeforeQueryHook,
+  QueryErrorHook,
+  QueryMiddleware,
+} from './middleware';
+import type { NormalizeOptions } from './normalize';
+
 export interface LegacyServerConfig {
   name: string;
   client?: string;
@@ -31,6 +39,24 @@ export interface LegacyServerConfig {
         cert?: string;
       }
     | false;
+  normalize?: NormalizeOptions;
+  /**
+   * Rejects the statements which may write data, and opens the connections as
+   * read-only where the database supports it.
+   */
+  readOnly?: boolean;
+  /**
+   * Policy for the statements which may destroy data (UPDATE and DELETE without WHERE,
+   * DROP, TRUNCATE and ALTER): "allow" executes them, "confirm" requires the query to
+   * be executed with the `confirmDangerous` option and "reject" never executes them.
+   * Defaults to "allow".
+   */
+  dangerousStatements?: 'allow' | 'confirm' | 'reject';
+  /**
+   * Milliseconds after which the statements executed by the user are aborted, failing
+   * with a QueryTimeoutError. Can be overridden per query. No timeout by default.
+   */
+  queryTimeout?: number;
 }
 
 export interface ServerConfig extends LegacyServerConfig {
@@ -41,6 +67,7 @@ export class Server {
   databases: { [key: string]: Database } = {};
   config: ServerConfig;
   sshTunnel: null | NetServer = null;
+  middlewares: QueryMiddleware[] = [];
 
   constructor(serverConfig: ServerConfig) {
     this.config = {
@@ -53,6 +80,24 @@ export class Server {
     return this.databases[dbName];
   }
 
+  /**
+   * Registers hooks called around every query executed on the server databases,
+   * including the internal metadata queries but not the streamed ones. Returns a
+   * function unregistering them.
+   */
+  use(
+    beforeQuery?: BeforeQueryHook,
+    afterQuery?: AfterQueryHook,
+    onError?: QueryErrorHook,
+  ): () => void {
+    const middleware: QueryMiddleware = { beforeQuery, afterQuery, onError };
+    this.middlewares.push(middleware);
+
+    return () => {
+      this.middlewares = this.middlewares.filter((item) => item !== middleware);
+    };
+  }
+
   /**
    * Disconnect all connected databases
    */
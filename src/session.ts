@@ -0,0 +1,139 @@
+import { identify } from 'sql-query-identifier';
+
+import { runWithSignal } from './abort';
+import createLogger from './logger';
+import { runTransaction } from './transaction';
+
+import type { AbortOptions, Database, QueryOptions } from './database';
+import type { Transaction } from './transaction';
+import type {
+  AdapterConnection,
+  QueryParams,
+  QueryReturn,
+  QueryRowResult,
+  TransactionOptions,
+} from './adapters/abstract_adapter';
+
+const logger = createLogger('db:session');
+
+/**
+ * Owns a dedicated connection, so session state such as `SET search_path`,
+ * `USE otherdb` or temporary tables is kept between queries.
+ */
+export class Session {
+  database: Database;
+  connection: AdapterConnection | null;
+  inTransaction = false;
+  runningQuery: QueryReturn | null = null;
+
+  constructor(database: Database, connection: AdapterConnection) {
+    this.database = database;
+    this.connection = connection;
+  }
+
+  checkIsOpen(): void {
+    if (!this.connection) {
+      throw new Error('The session has already been closed.');
+    }
+  }
+
+  query(queryText: string, params?: QueryParams, options?: QueryOptions): QueryReturn {
+    this.checkIsOpen();
+    const connection = <AdapterConnection>this.connection;
+    const query = this.database.wrapQuery(
+      queryText,
+      params,
+      (args) =>
+        connection.query(args.query, args.params, this.database.getAdapterQueryOptions(options)),
+      options,
+    );
+
+    return {
+      execute: async () => {
+        this.runningQuery = query;
+        try {
+          const results = await query.execute();
+          this.trackTransaction(queryText);
+          return results;
+        } finally {
+          this.runningQuery = null;
+        }
+      },
+      cancel: () => query.cancel(),
+    };
+  }
+
+  executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options?: QueryOptions,
+  ): Promise<QueryRowResult[]> {
+    return this.query(queryText, params, options).execute();
+  }
+
+  /**
+   * Cancels the query currently running in this session.
+   */
+  cancel(): void {
+    if (!this.runningQuery) {
+      throw new Error('There is no query running in this session.');
+    }
+
+    this.runningQuery.cancel();
+  }
+
+  async transaction<T>(
+    run: (tx: Transaction) => Promise<T>,
+    options: TransactionOptions & AbortOptions = {},
+  ): Promise<T> {
+    this.checkIsOpen();
+    if (this.inTransaction) {
+      throw new Error('There is already a transaction in progress for this session.');
+    }
+
+    const connection = <AdapterConnection>this.connection;
+    this.inTransaction = true;
+    try {
+      return await runWithSignal(options.signal, () =>
+        runTransaction(this.database, connection, run, options),
+      );
+    } finally {
+      this.inTransaction = false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.connection) {
+      return;
+    }
+
+    const { connection } = this;
+    this.connection = null;
+    this.inTransaction = false;
+    this.database.removeSession(this);
+
+    await connection.release();
+  }
+
+  /**
+   * Follows the transaction statements executed by the user, so callers
+   * can warn about a transaction left open before closing the session.
+   */
+  trackTransaction(queryText: string): void {
+    let statements;
+    try {
+      statements = identify(queryText, { strict: false });
+    } catch (err) {
+      logger().debug('unable to identify the session statements %j', err);
+      return;
+    }
+
+    statements.forEach(({ type, text }) => {
+      if (type === 'BEGIN_TRANSACTION') {
+        this.inTransaction = true;
+      } else if (type === 'COMMIT' || (type === 'ROLLBACK' && !/\bTO\b/i.test(text))) {
+        this.inTransaction = false;
+      }
+    });
+  }
+}
@@ -0,0 +1,305 @@
+export type SplitterDialect = 'generic' | 'mysql' | 'mssql' | 'psql' | 'sqlite';
+
+const DELIMITER_DIRECTIVE = /[ \t]*DELIMITER[ \t]+(\S+)[ \t]*(?:\r?\n|$)/iy;
+export const BATCH_SEPARATOR = /[ \t]*GO(?:[ \t]+(\d+))?[ \t]*(?:--[^\n]*)?(?:\r?\n|$)/iy;
+
+const DOLLAR_QUOTE = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const PARTIAL_DOLLAR_QUOTE = /\$[A-Za-z0-9_]*$/y;
+const COMMENTS = /^(?:\s+|--[^\n]*|\/\*[\s\S]*?\*\/)*$/;
+const LITERALS_AND_COMMENTS = /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?\*\//g;
+const TRIGGER = /^(?:\s+|--[^\n]*|\/\*[\s\S]*?\*\/)*CREATE\s+(?:TEMP(?:ORARY)?\s+)?TRIGGER\b/i;
+
+/**
+ * Splits the statements of a script read in chunks, keeping in memory only the statement
+ * being read. Follows the rules of the database command line clients: the MySQL DELIMITER
+ * directives, the SQL Server batches separated by GO (which are not split any further),
+ * the PostgreSQL dollar quoted strings and the SQLite triggers.
+ */
+export class StatementSplitter {
+  dialect: SplitterDialect;
+  delimiter = ';';
+  buffer = '';
+  // start of the statement being read and position of the scan within the buffer
+  start = 0;
+  position = 0;
+
+  constructor(dialect: SplitterDialect = 'generic') {
+    this.dialect = dialect;
+  }
+
+  /**
+   * Returns the statements completed by the chunk.
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    return this.split(false);
+  }
+
+  /**
+   * Returns the statements left once the whole script has been read.
+   */
+  end(): string[] {
+    const statements = this.split(true);
+    this.pushStatement(statements, this.buffer.length, 1);
+    this.buffer = '';
+    this.start = this.position = 0;
+    return statements;
+  }
+
+  split(final: boolean): string[] {
+    const statements: string[] = [];
+    const keyword = { mysql: 'DELIMITER', mssql: 'GO' }[this.dialect as string];
+
+    while (this.position < this.buffer.length) {
+      const { buffer, position } = this;
+
+      if (keyword && isLineStart(buffer, position)) {
+        // the directive line is only known once it has been entirely read
+        if (
+          !final &&
+          buffer.indexOf('\n', position) === -1 &&
+          mayStartDirective(buffer.slice(position, position + 64), keyword)
+        ) {
+          break;
+        }
+
+        const pattern = this.dialect === 'mysql' ? DELIMITER_DIRECTIVE : BATCH_SEPARATOR;
+        pattern.lastIndex = position;
+        const match = pattern.exec(buffer);
+        if (match) {
+          if (this.dialect === 'mysql') {
+            this.pushStatement(statements, position, 1);
+            this.delimiter = match[1];
+          } else {
+            this.pushStatement(statements, position, match[1] ? parseInt(match[1], 10) : 1);
+          }
+          this.start = this.position = pattern.lastIndex;
+          continue;
+        }
+      }
+
+      const end = skipLiteral(buffer, position, this.dialect);
+      if (end === -1) {
+        // wait for the rest of the literal, unless there is nothing else to read
+        if (!final) {
+          break;
+        }
+        this.position = buffer.length;
+        continue;
+      }
+
+      if (end > position) {
+        this.position = end;
+        continue;
+      }
+
+      if (this.dialect !== 'mssql' && buffer[position] === this.delimiter[0]) {
+        if (!final && buffer.length - position < this.delimiter.length) {
+          break;
+        }
+
+        if (
+          buffer.startsWith(this.delimiter, position) &&
+          !(this.dialect === 'sqlite' && isIncompleteTrigger(buffer.slice(this.start, position)))
+        ) {
+          this.pushStatement(statements, position, 1);
+          this.start = this.position = position + this.delimiter.length;
+          continue;
+        }
+      }
+
+      this.position += 1;
+    }
+
+    this.compact();
+    return statements;
+  }
+
+  /**
+   * Text made only of comments, such as the end of a file, is not a statement.
+   */
+  pushStatement(statements: string[], end: number, count: number): void {
+    const text = this.buffer.slice(this.start, end).trim();
+    if (text && !COMMENTS.test(text)) {
+      for (let i = 0; i < count; i++) {
+        statements.push(text);
+      }
+    }
+  }
+
+  /**
+   * Drops the statements already returned, keeping the character before the
+   * current statement to know whether it starts a line.
+   */
+  compact(): void {
+    const keep = Math.max(this.start - 1, 0);
+    if (keep) {
+      this.buffer = this.buffer.slice(keep);
+      this.start -= keep;
+      this.position -= keep;
+    }
+  }
+}
+
+export function isLineStart(queryText: string, position: number): boolean {
+  return position === 0 || queryText[position - 1] === '\n';
+}
+
+/**
+ * Whether the beginning of an incomplete line could be the given directive.
+ */
+function mayStartDirective(line: string, keyword: string): boolean {
+  const [, word, next] = /^[ \t]*([A-Za-z]*)([\s\S]?)/.exec(line) as RegExpExecArray;
+  if (word.length < keyword.length) {
+    return !next && keyword.startsWith(word.toUpperCase());
+  }
+  return word.toUpperCase() === keyword;
+}
+
+/**
+ * SQLite triggers have statements within BEGIN and END, which are part of the trigger.
+ * The CASE expressions of these statements also end with END, so the trigger is
+ * complete once every BEGIN and CASE has been closed.
+ */
+function isIncompleteTrigger(statement: string): boolean {
+  if (!TRIGGER.test(statement)) {
+    return false;
+  }
+
+  const text = statement.replace(LITERALS_AND_COMMENTS, ' ');
+  const keywords = /\b(?:BEGIN|CASE|END)\b/gi;
+  let depth = 0;
+  let begun = false;
+  let match;
+  while ((match = keywords.exec(text))) {
+    if (match[0].toUpperCase() === 'END') {
+      depth -= 1;
+    } else {
+      depth += 1;
+      begun = true;
+    }
+  }
+
+  return !begun || depth > 0;
+}
+
+/**
+ * Returns the position after the string, quoted identifier or comment starting at the
+ * given position, the same position if there is none, or -1 if it does not end within
+ * the text.
+ */
+export function skipLiteral(queryText: string, position: number, dialect: SplitterDialect): number {
+  const char = queryText[position];
+  const next = queryText[position + 1];
+
+  // may be the first character of a comment or dollar quote split across chunks
+  if (
+    next === undefined &&
+    (char === '-' || char === '/' || (char === '$' && dialect === 'psql'))
+  ) {
+    return -1;
+  }
+
+  if (char === '-' && next === '-') {
+    return indexAfter(queryText, position + 2, '\n', false);
+  }
+
+  if (char === '#' && dialect === 'mysql') {
+    return indexAfter(queryText, position + 1, '\n', false);
+  }
+
+  if (char === '/' && next === '*') {
+    return skipBlockComment(queryText, position, dialect === 'mssql' || dialect === 'psql');
+  }
+
+  if (char === '$' && dialect === 'psql') {
+    return skipDollarQuoted(queryText, position);
+  }
+
+  if (char === "'" || char === '"') {
+    // PostgreSQL only supports backslash escapes in E'' strings
+    const backslashEscapes =
+      dialect === 'mysql' || (dialect === 'psql' && /[eE]/.test(queryText[position - 1] || ''));
+    return skipQuoted(queryText, position, char, backslashEscapes);
+  }
+
+  if (char === '`' && (dialect === 'mysql' || dialect === 'sqlite')) {
+    return skipQuoted(queryText, position, char, false);
+  }
+
+  if (char === '[' && (dialect === 'mssql' || dialect === 'sqlite')) {
+    return skipQuoted(queryText, position, ']', false);
+  }
+
+  return position;
+}
+
+function indexAfter(queryText: string, position: number, end: string, inclusive: boolean): number {
+  const found = queryText.indexOf(end, position);
+  if (found === -1) {
+    return -1;
+  }
+  return inclusive ? found + end.length : found;
+}
+
+function skipBlockComment(queryText: string, position: number, nested: boolean): number {
+  if (!nested) {
+    return indexAfter(queryText, position + 2, '*/', true);
+  }
+
+  let depth = 0;
+  let current = position;
+  while (current < queryText.length) {
+    if (queryText.startsWith('/*', current)) {
+      depth += 1;
+      current += 2;
+    } else if (queryText.startsWith('*/', current)) {
+      depth -= 1;
+      current += 2;
+      if (!depth) {
+        return current;
+      }
+    } else {
+      current += 1;
+    }
+  }
+  return -1;
+}
+
+function skipDollarQuoted(queryText: string, position: number): number {
+  DOLLAR_QUOTE.lastIndex = position;
+  const match = DOLLAR_QUOTE.exec(queryText);
+  if (!match) {
+    // the opening tag may not have been entirely read yet
+    PARTIAL_DOLLAR_QUOTE.lastIndex = position;
+    return PARTIAL_DOLLAR_QUOTE.test(queryText) ? -1 : position;
+  }
+
+  return indexAfter(queryText, DOLLAR_QUOTE.lastIndex, match[0], true);
+}
+
+/**
+ * The closing quote is escaped by doubling it, or with a backslash where supported.
+ */
+function skipQuoted(
+  queryText: string,
+  position: number,
+  close: string,
+  backslashEscapes: boolean,
+): number {
+  let current = position + 1;
+  while (current < queryText.length) {
+    const char = queryText[current];
+    if (backslashEscapes && char === '\\') {
+      current += 2;
+    } else if (char === close && queryText[current + 1] === close) {
+      current += 2;
+    } else if (char === close) {
+      // a doubled quote may be split across chunks
+      return current + 1 < queryText.length ? current + 1 : -1;
+    } else {
+      current += 1;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,154 @@
+import { runWithoutSignal } from './abort';
+import createLogger from './logger';
+import { ISOLATION_LEVELS } from './adapters/abstract_adapter';
+
+import type { Database, QueryOptions } from './database';
+import type {
+  AbstractAdapter,
+  AdapterConnection,
+  QueryParams,
+  QueryReturn,
+  QueryRowResult,
+  TransactionOptions,
+} from './adapters/abstract_adapter';
+
+const logger = createLogger('db:transaction');
+
+/**
+ * Runs every query on the same connection, within the transaction opened
+ * by `Database.transaction`.
+ */
+export class Transaction {
+  database: Database;
+  connection: AdapterConnection;
+  savepoints = 0;
+
+  constructor(database: Database, connection: AdapterConnection) {
+    this.database = database;
+    this.connection = connection;
+  }
+
+  get adapter(): AbstractAdapter {
+    return <AbstractAdapter>this.database.connection;
+  }
+
+  query(queryText: string, params?: QueryParams, options?: QueryOptions): QueryReturn {
+    return this.database.wrapQuery(
+      queryText,
+      params,
+      (args) =>
+        this.connection.query(
+          args.query,
+          args.params,
+          this.database.getAdapterQueryOptions(options),
+        ),
+      options,
+    );
+  }
+
+  executeQuery(
+    queryText: string,
+    params?: QueryParams,
+    options?: QueryOptions,
+  ): Promise<QueryRowResult[]> {
+    return this.database.runMiddleware(
+      { query: queryText, params, internal: false },
+      (args) => {
+        const bound = this.database.bindParameters(args.query, args.params);
+        return this.connection.executeQuery(
+          bound.query,
+          bound.params,
+          this.database.getAdapterQueryOptions(options),
+        );
+      },
+      options,
+    );
+  }
+
+  /**
+   * Runs the callback within a savepoint, which is rolled back when the
+   * callback fails without affecting the rest of the transaction.
+   */
+  async savepoint<T>(run: (tx: Transaction) => Promise<T>): Promise<T> {
+    this.savepoints += 1;
+    const name = `sqlectron_savepoint_${this.savepoints}`;
+
+    await executeInternalQuery(
+      this.database,
+      this.connection,
+      this.adapter.getSavepointQuery(name),
+    );
+
+    let result: T;
+    try {
+      result = await run(this);
+    } catch (err) {
+      await runWithoutSignal(() =>
+        executeInternalQuery(
+          this.database,
+          this.connection,
+          this.adapter.getRollbackToSavepointQuery(name),
+        ),
+      );
+      throw err;
+    }
+
+    const release = this.adapter.getReleaseSavepointQuery(name);
+    if (release) {
+      await executeInternalQuery(this.database, this.connection, release);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Runs the callback within a transaction on the given connection, committing it
+ * once the callback resolves or rolling it back when the callback fails.
+ */
+export async function runTransaction<T>(
+  database: Database,
+  connection: AdapterConnection,
+  run: (tx: Transaction) => Promise<T>,
+  options: TransactionOptions = {},
+): Promise<T> {
+  const { isolationLevel } = options;
+  if (isolationLevel && !ISOLATION_LEVELS.includes(isolationLevel)) {
+    throw new Error(`Invalid isolation level "${isolationLevel}".`);
+  }
+
+  const adapter = <AbstractAdapter>database.connection;
+  await executeInternalQuery(database, connection, adapter.getBeginTransactionQuery(options));
+
+  let result: T;
+  try {
+    result = await run(new Transaction(database, connection));
+  } catch (err) {
+    try {
+      // rolled back even when aborted, so the connection is not left within the transaction
+      await runWithoutSignal(() =>
+        executeInternalQuery(database, connection, adapter.getRollbackTransactionQuery()),
+      );
+    } catch (rollbackErr) {
+      // keep the callback error, which is what caused the rollback
+      logger().error('failed rolling back transaction %j', rollbackErr);
+    }
+    throw err;
+  }
+
+  await executeInternalQuery(database, connection, adapter.getCommitTransactionQuery());
+  return result;
+}
+
+/**
+ * Executes the transaction control statements through the middlewares as internal queries.
+ */
+function executeInternalQuery(
+  database: Database,
+  connection: AdapterConnection,
+  queryText: string,
+): Promise<QueryRowResult[]> {
+  return database.runMiddleware({ query: queryText }, (args) =>
+    connection.executeQuery(args.query),
+  );
+}
@@ -3,9 +3,32 @@ import { homedir } from 'os';
 import path from 'path';
 import { identify } from 'sql-query-identifier';
 
-import { CanceledByUserError } from './errors';
+import { CanceledByUserError, QueryTimeoutError } from './errors';
 
-import type { Result } from 'sql-query-identifier';
+import type { Dialect, Result } from 'sql-query-identifier';
+import type {
+  QueryStreamBatch,
+  ResultField,
+  ResultFieldCategory,
+} from './adapters/abstract_adapter';
+
+const TYPE_CATEGORIES: [RegExp, ResultFieldCategory][] = [
+  [/^(bool|boolean|bit)\b/, 'boolean'],
+  [/^jsonb?\b/, 'json'],
+  [
+    /^(date|datetime\d?|datetimeoffset|smalldatetime|newdate|time|timetz|timestamp|timestamptz|year)\b/,
+    'date',
+  ],
+  [
+    /^((tiny|small|medium|big)?int(eger)?\d*|int24|short|long|longlong|tiny|serial\d*|(small|big)serial|dec|decimal|newdecimal|numeric|number|real|float\d*|double|money|smallmoney|varint|counter|oid)\b/,
+    'number',
+  ],
+  [/^(bytea|blob|tinyblob|mediumblob|longblob|binary|varbinary|image)\b/, 'binary'],
+  [
+    /^(char|character|bpchar|varchar|nchar|nvarchar|var_string|string|text|ntext|tinytext|mediumtext|longtext|clob|citext|name|ascii|enum|set|uuid|timeuuid|uniqueidentifier|sysname|xml)\b/,
+    'string',
+  ],
+];
 
 export function readFile(filename: string): Promise<string> {
   const filePath = resolveHomePathToAbsolute(filename);
@@ -57,6 +80,37 @@ export function createCancelablePromise(
   };
 }
 
+/**
+ * Interrupts the query once the timeout is exceeded, for the databases without a
+ * server-side timeout. The error of the interrupted query is replaced by a QueryTimeoutError.
+ */
+export async function runWithTimeout<T>(
+  timeout: number | undefined,
+  run: () => Promise<T>,
+  interrupt: () => void,
+): Promise<T> {
+  if (!timeout) {
+    return run();
+  }
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    interrupt();
+  }, timeout);
+
+  try {
+    return await run();
+  } catch (err) {
+    if (timedOut) {
+      throw new QueryTimeoutError(timeout);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 /**
  * Compares two version strings.
  *
@@ -87,6 +141,171 @@ export function identifyCommands(queryText: string): Result[] {
   }
 }
 
+/**
+ * Splits the script into its statements. Statements unknown to the parser are kept
+ * as they are, and a script which cannot be parsed at all is kept as a single statement.
+ */
+export function splitStatements(queryText: string, dialect: Dialect = 'generic'): string[] {
+  try {
+    return identify(queryText, { strict: false, dialect }).map((statement) => statement.text);
+  } catch (err) {
+    return queryText.trim() ? [queryText] : [];
+  }
+}
+
+const READ_EXECUTION_TYPES = ['LISTING', 'INFORMATION', 'TRANSACTION'];
+
+/**
+ * Returns the text of the statements which may write data. Statements which could
+ * not be identified are returned as well, since there is no way to tell what they do.
+ */
+export function findWriteStatements(queryText: string): string[] {
+  let statements: Result[];
+  try {
+    statements = identify(queryText, { strict: false });
+  } catch (err) {
+    return [queryText.trim()];
+  }
+
+  return statements
+    .filter(
+      (statement) =>
+        !READ_EXECUTION_TYPES.includes(statement.executionType) ||
+        (statement.type === 'SELECT' && isWritingSelect(statement.text)),
+    )
+    .map((statement) => statement.text);
+}
+
+/**
+ * SELECT INTO creates a table, and the WITH queries of PostgreSQL may modify data,
+ * so a SELECT mentioning any of these is not a read, the row locks excepted.
+ */
+function isWritingSelect(statement: string): boolean {
+  const text = removeLiteralsAndComments(statement).replace(
+    /\bFOR\s+(?:NO\s+KEY\s+)?UPDATE\b/gi,
+    ' ',
+  );
+
+  return /\b(?:INTO|INSERT|UPDATE|DELETE|MERGE)\b/i.test(text);
+}
+
+/**
+ * Returns the text of the statements which may destroy data: UPDATE and DELETE
+ * without a WHERE clause, including those of the WITH queries, DROP, TRUNCATE and ALTER.
+ */
+export function findDangerousStatements(queryText: string, dialect: Dialect = 'generic'): string[] {
+  let statements: Result[];
+  try {
+    statements = identify(queryText, { strict: false, dialect });
+  } catch (err) {
+    return [queryText.trim()];
+  }
+
+  return statements
+    .filter(({ type, text }) => {
+      if (type === 'UPDATE' || type === 'DELETE') {
+        return !hasWhereClause(text) || findWithQueries(text).some(isUnfilteredWrite);
+      }
+      if (type === 'SELECT' || type === 'INSERT') {
+        return findWithQueries(text).some(isUnfilteredWrite);
+      }
+      return type === 'TRUNCATE' || type.startsWith('DROP_') || type.startsWith('ALTER_');
+    })
+    .map((statement) => statement.text);
+}
+
+/**
+ * Returns the bodies of the WITH queries of the statement, such as `DELETE FROM t`
+ * for `WITH x AS (DELETE FROM t) SELECT * FROM x`.
+ */
+function findWithQueries(statement: string): string[] {
+  const text = removeLiteralsAndComments(statement);
+  const pattern = /\bAS\s*(?:NOT\s+)?(?:MATERIALIZED\s+)?\(/gi;
+  const queries: string[] = [];
+
+  while (pattern.exec(text)) {
+    let depth = 1;
+    let end = pattern.lastIndex;
+    for (; end < text.length && depth > 0; end++) {
+      depth += text[end] === '(' ? 1 : text[end] === ')' ? -1 : 0;
+    }
+    queries.push(text.substring(pattern.lastIndex, end - 1));
+  }
+
+  return queries;
+}
+
+function isUnfilteredWrite(query: string): boolean {
+  return /^\s*(?:UPDATE|DELETE)\b/i.test(query) && !hasWhereClause(query);
+}
+
+/**
+ * Only a WHERE clause of the statement itself counts, so the literals, comments
+ * and parenthesized subqueries are removed before looking for it.
+ */
+function hasWhereClause(statement: string): boolean {
+  let text = removeLiteralsAndComments(statement);
+  while (/\([^()]*\)/.test(text)) {
+    text = text.replace(/\([^()]*\)/g, ' ');
+  }
+
+  return /\bWHERE\b/i.test(text);
+}
+
+function removeLiteralsAndComments(statement: string): string {
+  return statement.replace(
+    /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?\*\//g,
+    ' ',
+  );
+}
+
+/**
+ * Maps a database type name (e.g. "varchar(255)", "int4", "DATETIME") to the
+ * category of values it holds.
+ */
+export function getTypeCategory(dataType: string): ResultFieldCategory {
+  const type = dataType.trim().toLowerCase();
+  const found = TYPE_CATEGORIES.find(([pattern]) => pattern.test(type));
+  return found ? found[1] : 'other';
+}
+
+/**
+ * Fallback for drivers without any column metadata, guessing the fields from
+ * the keys and values of the first row.
+ */
+export function guessFieldsFromRows(rows: unknown[]): ResultField[] {
+  const [row] = rows as { [name: string]: unknown }[];
+  return Object.keys(row || {}).map((name) => {
+    const value = row[name];
+    let category: ResultFieldCategory = 'other';
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      category = 'number';
+    } else if (typeof value === 'string') {
+      category = 'string';
+    } else if (typeof value === 'boolean') {
+      category = 'boolean';
+    } else if (value instanceof Date) {
+      category = 'date';
+    } else if (Buffer.isBuffer(value)) {
+      category = 'binary';
+    }
+    return { name, dataType: '', category };
+  });
+}
+
+/**
+ * Groups the rows of a metadata query returning a row per item of each group,
+ * such as a row per column of each index, keeping the order of the rows.
+ */
+export function groupRows<T>(rows: T[], key: (row: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const name = key(row);
+    groups.set(name, [...(groups.get(name) || []), row]);
+  });
+  return [...groups.values()];
+}
+
 export function appendSemiColon(query: string): string {
   let result = query.trim();
   if (result[result.length - 1] !== ';') {
@@ -94,3 +313,111 @@ export function appendSemiColon(query: string): string {
   }
   return result;
 }
+
+/**
+ * Collects rows pushed by a driver into batches and exposes them as an async iterator.
+ *
+ * When a `pause` function is given, the driver is paused once `highWaterMark` batches
+ * are waiting to be consumed, and resumed as soon as the consumer catches up. This keeps
+ * the memory usage bounded regardless of the size of the result.
+ */
+export function createBatchQueue({
+  batchSize,
+  highWaterMark = 2,
+  pause,
+  resume,
+}: {
+  batchSize: number;
+  highWaterMark?: number;
+  pause?: () => void;
+  resume?: () => void;
+}): {
+  setFields: (fields: ResultField[]) => void;
+  push: (row: unknown) => void;
+  end: () => void;
+  fail: (err: unknown) => void;
+  batches: () => AsyncGenerator<QueryStreamBatch>;
+} {
+  const pending: QueryStreamBatch[] = [];
+  let fields: ResultField[] = [];
+  let rows: unknown[] = [];
+  let emitted = false;
+  let ended = false;
+  let paused = false;
+  let error: unknown = null;
+  let notify: (() => void) | null = null;
+
+  const wakeUp = () => {
+    if (notify) {
+      notify();
+      notify = null;
+    }
+  };
+
+  const flush = () => {
+    pending.push({ fields, rows });
+    emitted = true;
+    rows = [];
+    if (pause && !paused && pending.length >= highWaterMark) {
+      paused = true;
+      pause();
+    }
+  };
+
+  return {
+    setFields(value) {
+      // rows already collected belong to the previous result
+      if (rows.length) {
+        flush();
+        wakeUp();
+      }
+      fields = value;
+    },
+    push(row) {
+      rows.push(row);
+      if (rows.length >= batchSize) {
+        flush();
+        wakeUp();
+      }
+    },
+    end() {
+      // Always emit at least one batch, so the consumer knows the fields of empty results
+      if (rows.length || !emitted) {
+        flush();
+      }
+      ended = true;
+      wakeUp();
+    },
+    fail(err) {
+      error = err;
+      ended = true;
+      wakeUp();
+    },
+    async *batches() {
+      while (true) {
+        if (error) {
+          throw error;
+        }
+
+        const batch = pending.shift();
+        if (batch) {
+          if (paused && resume && pending.length < highWaterMark) {
+            paused = false;
+            resume();
+          }
+          yield batch;
+          continue;
+        }
+
+        if (ended) {
+          return;
+        }
+
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise<void>((resolve) => {
+          notify = resolve;
+        });
+      }
+    },
+  };
+}